@@ -0,0 +1,6 @@
+const config = require('./jest.config')
+
+module.exports = {
+    ...config,
+    testRegex: "/__benchmarks__/.*\\.bench\\.ts$"
+}
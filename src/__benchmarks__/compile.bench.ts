@@ -0,0 +1,94 @@
+import {
+    Rules,
+    Validator,
+    arrayOf,
+    compile,
+    objectOf,
+    recordOf,
+    validatorFor
+} from '../index'
+
+// Compares the throughput of validators before and after compiling them,
+// on payloads shaped like the messages a consumer might read off a queue.
+// Run with `npm run bench`.
+
+const DURATION_MS = 500
+
+const crewMemberValidator = objectOf({
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(1)),
+    rank: Rules.isOneOf(['captain', 'xo', 'engineer', 'pilot', 'mechanic'] as const),
+    serviceYears: validatorFor<number>().withRule(Rules.isInteger()).withRule(Rules.min(0))
+})
+
+const spaceshipValidator = objectOf({
+    id: Rules.isUUID(),
+    name: Rules.isString(),
+    launched: Rules.isISO8601(),
+    massInTons: Rules.isNumber(),
+    lengthInMeters: Rules.isNumber(),
+    callsign: validatorFor<string>().withRule(Rules.isString()).optional(),
+    engines: arrayOf(objectOf({
+        type: Rules.isOneOf(['fusion', 'ion', 'chemical'] as const),
+        maxAcceleration: Rules.isNumber(),
+        safeInAtmosphere: Rules.isBoolean()
+    }), { minLength: 1 }),
+    crew: arrayOf(crewMemberValidator),
+    cargo: recordOf(Rules.isInteger())
+})
+
+function aSpaceship(crewCount: number): any {
+    const crew = []
+    for (let i = 0; i < crewCount; i++) {
+        crew.push({ name: `Crew member ${i}`, rank: 'mechanic', serviceYears: i % 20 })
+    }
+    return {
+        id: '0b6b8f8e-3f3b-4b8e-9b8e-3f3b4b8e9b8e',
+        name: 'Rocinante',
+        launched: '2350-01-01T00:00:00Z',
+        massInTons: 1200,
+        lengthInMeters: 46,
+        engines: [{ type: 'fusion', maxAcceleration: 12, safeInAtmosphere: false }],
+        crew,
+        cargo: { water: 2000, ice: 40000, ammunition: 300 }
+    }
+}
+
+function opsPerSecond(validator: Validator<any>, value: any): number {
+    let iterations = 0
+    const start = Date.now()
+    while (Date.now() - start < DURATION_MS) {
+        for (let i = 0; i < 100; i++) {
+            validator(value)
+        }
+        iterations += 100
+    }
+    return Math.round(iterations / ((Date.now() - start) / 1000))
+}
+
+function compare(description: string, value: any) {
+    const original = opsPerSecond(spaceshipValidator, value)
+    const compiled = opsPerSecond(compile(spaceshipValidator), value)
+    const generated = opsPerSecond(compile(spaceshipValidator, { generateCode: true }), value)
+    console.log([
+        description,
+        `  original:       ${original} ops/s`,
+        `  compiled:       ${compiled} ops/s (${(compiled / original).toFixed(1)}x)`,
+        `  generated code: ${generated} ops/s (${(generated / original).toFixed(1)}x)`
+    ].join('\n'))
+}
+
+describe('compile', () => {
+    it('a small valid ship', () => {
+        compare('A ship with 4 crew', aSpaceship(4))
+    })
+
+    it('a large valid ship', () => {
+        compare('A ship with 200 crew', aSpaceship(200))
+    })
+
+    it('an invalid ship', () => {
+        const ship = aSpaceship(200)
+        ship.crew[199].rank = 'stowaway'
+        compare('A ship with 200 crew, the last of them invalid', ship)
+    })
+})
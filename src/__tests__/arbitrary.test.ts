@@ -0,0 +1,188 @@
+import {
+    Rules,
+    ValidationError,
+    ValidatorBuilder,
+    arbitraryFor,
+    arrayOf,
+    createRandom,
+    discriminated,
+    fuzz,
+    lazy,
+    metadataOf,
+    objectOf,
+    oneOf,
+    recordOf,
+    tupleOf,
+    validatorFor,
+    withMetadata
+} from '../index'
+
+import 'jest-extended'
+
+interface Crew {
+    name: string
+    subordinates: Crew[]
+}
+
+const crewValidator: ValidatorBuilder<Crew> = objectOf({
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(1)),
+    subordinates: arrayOf(lazy(() => crewValidator, 'Crew'), { maxLength: 3 })
+})
+
+const engineValidator = objectOf({
+    type: Rules.isOneOf(['fusion', 'ion'] as const),
+    maxAcceleration: validatorFor<number>().withRule(Rules.isNumber()).withRule(Rules.inRange(0, 20)),
+    safeInAtmosphere: Rules.isBoolean()
+})
+
+const spaceshipValidator = objectOf({
+    id: Rules.isUUID(),
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3)).withRule(Rules.maxLength(20)),
+    launched: Rules.isISO8601(),
+    contact: Rules.isEmail(),
+    homepage: validatorFor<string>().withRule(Rules.isURL()).optional(),
+    crewCount: validatorFor<number>().withRule(Rules.isInteger()).withRule(Rules.min(1)),
+    registered: Rules.isDate(),
+    engines: arrayOf(engineValidator, { minLength: 1, maxLength: 4 }),
+    captain: crewValidator.nullable(),
+    position: tupleOf(Rules.isNumber(), Rules.isNumber()),
+    cargo: recordOf(Rules.isInteger())
+}).withUnknownKeys('strict')
+
+const shapeValidator = discriminated('kind', {
+    circle: objectOf({ kind: Rules.isOneOf(['circle'] as const), radius: validatorFor<number>().withRule(Rules.isNumber()).withRule(Rules.min(0)) }),
+    square: objectOf({ kind: Rules.isOneOf(['square'] as const), side: Rules.isNumber() })
+})
+
+describe('createRandom', () => {
+    it('produces the same sequence for the same seed', () => {
+        const first = createRandom(7)
+        const second = createRandom(7)
+        const values = [first.next(), first.integer(1, 6), first.pick(['a', 'b', 'c'])]
+        expect([second.next(), second.integer(1, 6), second.pick(['a', 'b', 'c'])]).toEqual(values)
+        expect(createRandom(8).next()).not.toEqual(values[0])
+    })
+
+    it('keeps integers within bounds', () => {
+        const random = createRandom(1)
+        for (let i = 0; i < 200; i++) {
+            const value = random.integer(-2, 2)
+            expect(value).toBeWithin(-2, 3)
+            expect(Number.isInteger(value)).toBeTrue()
+        }
+    })
+})
+
+describe('arbitraryFor', () => {
+    it('generates values the validator accepts', () => {
+        const ships = arbitraryFor(spaceshipValidator, { seed: 42 })
+        for (let i = 0; i < 50; i++) {
+            const errors: ValidationError[] = []
+            expect(spaceshipValidator(ships.valid(), errors)).toBeTrue()
+            expect(errors).toBeEmpty()
+        }
+    })
+
+    it('generates the same values for the same seed', () => {
+        const first = arbitraryFor(spaceshipValidator, { seed: 3 })
+        const second = arbitraryFor(spaceshipValidator, { seed: 3 })
+        expect(second.valid()).toEqual(first.valid())
+        expect(second.invalid()).toEqual(first.invalid())
+        expect(first.seed).toBe(3)
+    })
+
+    it('respects the limits of built-in rules', () => {
+        const ships = arbitraryFor(spaceshipValidator, { seed: 5 })
+        for (let i = 0; i < 20; i++) {
+            const ship = ships.valid()
+            expect(ship.name.length).toBeWithin(3, 21)
+            expect(ship.engines.length).toBeWithin(1, 5)
+            expect(ship.crewCount).toBeGreaterThanOrEqual(1)
+            ship.engines.forEach(engine => expect(['fusion', 'ion']).toContain(engine.type))
+        }
+    })
+
+    it('keeps recursive values within the depth limit', () => {
+        const depthOf = (crew: Crew): number => 1 + Math.max(0, ...crew.subordinates.map(depthOf))
+        const crews = arbitraryFor(crewValidator, { seed: 11, maxDepth: 2 })
+        for (let i = 0; i < 20; i++) {
+            expect(depthOf(crews.valid())).toBeLessThanOrEqual(3)
+        }
+    })
+
+    it('generates near misses which are rejected at their paths', () => {
+        const ships = arbitraryFor(spaceshipValidator, { seed: 9 })
+        for (let i = 0; i < 50; i++) {
+            const sample = ships.invalid()
+            const errors: ValidationError[] = []
+            expect(spaceshipValidator(sample.value, errors)).toBeFalse()
+            expect(errors.map(error => error.path || '')).toContain(sample.path)
+        }
+    })
+
+    it('generates RegExps and Promises, and near misses for them', () => {
+        const launchValidator = objectOf({ pattern: Rules.isRegExp(), launched: Rules.isPromise() })
+        const launches = arbitraryFor(launchValidator, { seed: 4 })
+        expect(launchValidator(launches.valid())).toBeTrue()
+        expect(launchValidator(launches.invalid().value)).toBeFalse()
+    })
+
+    it('generates values passing custom rules by trying again', () => {
+        const evenValidator = validatorFor<number>().withRule(Rules.isInteger()).withRule((x) => x % 2 === 0, (x) => `${x} is odd`)
+        const numbers = arbitraryFor(evenValidator, { seed: 1 })
+        for (let i = 0; i < 10; i++) {
+            expect(Math.abs(numbers.valid() % 2)).toBe(0)
+        }
+    })
+
+    it('fails when no valid value can be found', () => {
+        const impossible = validatorFor<string>().withRule(Rules.isString()).withRule((x) => false, (x) => 'Never valid')
+        expect(() => arbitraryFor(impossible, { seed: 1, maxAttempts: 5 }).valid()).toThrow('Could not generate a valid value in 5 attempts (seed 1)')
+    })
+
+    it('fails to generate invalid values when nothing is known about the validator', () => {
+        const anything = validatorFor<any>((x: any) => x !== undefined)
+        expect(() => arbitraryFor(anything, { seed: 1 }).invalid()).toThrow('nothing is known about what the validator rejects')
+    })
+})
+
+describe('fuzz', () => {
+    it('finds no failures for validators whose metadata matches what they check', () => {
+        [spaceshipValidator, crewValidator, shapeValidator, oneOf(Rules.isString(), Rules.isNumber())].forEach(validator => {
+            const result = fuzz(validator, { seed: 1, runs: 100 })
+            expect(result.failures).toEqual([])
+            expect(result.runs).toBe(100)
+        })
+    })
+
+    it('treats bounds without a type rule as bounds on numbers', () => {
+        [Rules.inRange(1, 5), Rules.min(1), Rules.max(5), objectOf({ a: Rules.inRange(1, 5) })].forEach(validator => {
+            const result = fuzz(validator, { seed: 1, runs: 50 })
+            expect(result.failures).toEqual([])
+        })
+    })
+
+    it('reports valid values that are rejected', () => {
+        // Claims to check for strings, but only accepts short ones
+        const shortString = withMetadata(
+            validatorFor<string>((x: any) => typeof x === 'string' && x.length < 3, () => 'Too long'),
+            () => ({ kind: 'rule', rule: 'isString', params: {} })
+        )
+        const result = fuzz(objectOf({ name: shortString }), { seed: 2, runs: 20 })
+        expect(result.seed).toBe(2)
+        expect(result.failures).not.toBeEmpty()
+        expect(result.failures[0].reason).toBe('A valid value was rejected')
+        expect(result.failures[0].errors[0]).toMatchObject({ path: 'name', error: 'Too long' })
+    })
+
+    it('reports errors at unexpected paths', () => {
+        // Reports a missing name at the object rather than at the property
+        const misplaced = withMetadata(
+            validatorFor<{ name: string }>((x: any) => typeof x === 'object' && x !== null && typeof x.name === 'string', () => 'Bad ship'),
+            () => metadataOf(objectOf({ name: Rules.isString() }))
+        )
+        const result = fuzz(misplaced, { seed: 3, runs: 20 })
+        expect(result.failures).not.toBeEmpty()
+        expect(result.failures[0]).toMatchObject({ reason: "No error was reported at 'name'", path: 'name' })
+    })
+})
@@ -0,0 +1,189 @@
+import {
+    AsyncValidator,
+    Rules,
+    ValidationError,
+    arrayOf,
+    assertValid,
+    oneOf,
+    ValidatorBuilder,
+    validateAsync,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+// Compares errors by path and message only
+const withoutDetails = ({ path, error }: ValidationError) => ({ path, error })
+
+interface CrewMember {
+    username: string,
+    shipId: string
+}
+
+interface Spaceship {
+    name: string,
+    crew: CrewMember[]
+}
+
+// In-memory stand-ins for lookups that would normally hit a database
+class InMemoryRepository {
+    public lookups = 0
+    public inFlight = 0
+    public maxInFlight = 0
+
+    constructor(private readonly ids: string[]) { }
+
+    exists(id: string): Promise<boolean> {
+        this.lookups++
+        this.inFlight++
+        this.maxInFlight = Math.max(this.maxInFlight, this.inFlight)
+        return new Promise(resolve => setTimeout(() => {
+            this.inFlight--
+            resolve(this.ids.indexOf(id) !== -1)
+        }, 1))
+    }
+}
+
+describe('Asynchronous validation', () => {
+    let takenUsernames: InMemoryRepository
+    let ships: InMemoryRepository
+    let crewMemberValidator: ValidatorBuilder<CrewMember>
+
+    beforeEach(() => {
+        takenUsernames = new InMemoryRepository(['holden'])
+        ships = new InMemoryRepository(['rocinante', 'canterbury'])
+        crewMemberValidator = validatorFor<CrewMember>()
+            .withRuleFor('username', Rules.isString())
+            .withAsyncRuleFor('username',
+                (username) => takenUsernames.exists(username).then(taken => !taken),
+                (username) => `${username} is already taken`)
+            .withAsyncRuleFor('shipId',
+                (shipId) => ships.exists(shipId),
+                (shipId) => `There is no ship with id ${shipId}`)
+    })
+
+    it('should resolve valid values', async () => {
+        const result = await crewMemberValidator.validateAsync({ username: 'naomi', shipId: 'rocinante' })
+        expect(result).toEqual({ valid: true, value: { username: 'naomi', shipId: 'rocinante' }, errors: [] })
+    })
+
+    it('should collect errors from asynchronous rules with paths', async () => {
+        const result = await crewMemberValidator.validateAsync({ username: 'holden', shipId: 'donnager' })
+        expect(result.valid).toBe(false)
+        expect(result.errors.map(withoutDetails)).toIncludeSameMembers([
+            { path: 'username', error: 'holden is already taken' },
+            { path: 'shipId', error: 'There is no ship with id donnager' }
+        ])
+    })
+
+    it('should skip asynchronous rules when the synchronous ones fail', async () => {
+        const result = await crewMemberValidator.validateAsync({ username: 7, shipId: 'rocinante' })
+        expect(result.errors).toMatchObject([{ path: 'username', error: 'Expected value of type string, but got type number' }])
+        expect(takenUsernames.lookups).toBe(0)
+    })
+
+    it('should not accept values synchronously while asynchronous rules are left to run', () => {
+        const crewMember = { username: 'holden', shipId: 'donnager' }
+        const errors: ValidationError[] = []
+        const asyncError = { path: '', error: 'Asynchronous rules can only be checked with validateAsync', code: 'async.required', params: {} }
+
+        expect(crewMemberValidator(crewMember)).toBe(false)
+        expect(crewMemberValidator(crewMember, errors)).toBe(false)
+        expect(errors).toEqual([asyncError])
+        expect(crewMemberValidator.safeParse(crewMember)).toEqual({ valid: false, errors: [asyncError] })
+        expect(() => crewMemberValidator.parse(crewMember)).toThrow('Asynchronous rules can only be checked with validateAsync')
+        expect(() => assertValid(crewMemberValidator, crewMember)).toThrow('Asynchronous rules can only be checked with validateAsync')
+        expect(takenUsernames.lookups).toBe(0)
+    })
+
+    it('should not accept values synchronously when nested validators leave asynchronous rules to run', () => {
+        const crewMember = { username: 'naomi', shipId: 'rocinante' }
+        const errors: ValidationError[] = []
+
+        expect(arrayOf(crewMemberValidator)([crewMember])).toBe(false)
+        expect(oneOf(Rules.isNumber(), crewMemberValidator)(crewMember, errors)).toBe(false)
+        expect(oneOf(Rules.isNumber(), crewMemberValidator)(42)).toBe(true)
+        expect(errors.map(withoutDetails)).toEqual([{ path: '', error: 'Asynchronous rules can only be checked with validateAsync' }])
+    })
+
+    it('should report errors found synchronously rather than asynchronous rules left to run', () => {
+        const result = crewMemberValidator.safeParse({ username: 7, shipId: 'rocinante' })
+        expect(result.errors.map(withoutDetails)).toEqual([
+            { path: 'username', error: 'Expected value of type string, but got type number' }
+        ])
+    })
+
+    it('should run asynchronous rules of nested validators, including through collections', async () => {
+        const shipValidator = validatorFor<Spaceship>()
+            .withRuleFor('name', Rules.isString())
+            .withRuleFor('crew', arrayOf(crewMemberValidator))
+
+        const result = await shipValidator.validateAsync({
+            name: 'Rocinante',
+            crew: [
+                { username: 'naomi', shipId: 'rocinante' },
+                { username: 'holden', shipId: 'rocinante' }
+            ]
+        })
+
+        expect(result).toMatchObject({ valid: false, errors: [{ path: 'crew[1].username', error: 'holden is already taken' }] })
+    })
+
+    it('should let synchronous validators compose into asynchronous rules', async () => {
+        const isAlphanumeric = Rules.matches(/^[a-z0-9]+$/)
+        const validator = validatorFor<CrewMember>()
+            .withAsyncRuleFor('username', isAlphanumeric)
+            .withAsyncRule(crewMemberValidator)
+
+        const errors = (await validator.validateAsync({ username: 'amos!', shipId: 'donnager' })).errors
+        expect(errors.map(withoutDetails)).toIncludeSameMembers([
+            { path: 'username', error: "Expected a string matching /^[a-z0-9]+$/, but got 'amos!'" },
+            { path: 'shipId', error: 'There is no ship with id donnager' }
+        ])
+    })
+
+    it('should run independent rules concurrently, up to the concurrency limit', async () => {
+        const fleetValidator = arrayOf(crewMemberValidator)
+        const crew = ['naomi', 'amos', 'alex', 'bobbie', 'clarissa', 'chrisjen'].map(username => ({ username, shipId: 'rocinante' }))
+
+        const unlimited = await validateAsync(fleetValidator, crew)
+        expect(unlimited.valid).toBe(true)
+        expect(takenUsernames.maxInFlight).toBe(6)
+
+        takenUsernames.maxInFlight = 0
+        ships.maxInFlight = 0
+        const limited = await fleetValidator.validateAsync(crew, { concurrency: 2 })
+        expect(limited.valid).toBe(true)
+        expect(takenUsernames.maxInFlight + ships.maxInFlight).toBeLessThanOrEqual(2)
+    })
+
+    it('should stop starting asynchronous rules once one fails with abortEarly', async () => {
+        const fleetValidator = arrayOf(crewMemberValidator)
+        const crew = ['holden', 'naomi', 'amos', 'alex'].map(username => ({ username, shipId: 'rocinante' }))
+
+        const result = await fleetValidator.validateAsync(crew, { abortEarly: true, concurrency: 1 })
+
+        expect(result.valid).toBe(false)
+        expect(result.errors.map(withoutDetails)).toEqual([{ path: '[0].username', error: 'holden is already taken' }])
+        expect(takenUsernames.lookups + ships.lookups).toBe(1)
+    })
+
+    it('should accept hand written asynchronous validators', async () => {
+        const notBlacklisted: AsyncValidator<string> = async (value: any, errorCollector?: ValidationError[], path?: string) => {
+            const valid = value !== 'protomolecule'
+            if (!valid && errorCollector) {
+                errorCollector.push({ path, error: 'Absolutely not' })
+            }
+            return valid
+        }
+        const validator = validatorFor<{ cargo: string }>().withAsyncRuleFor('cargo', notBlacklisted)
+
+        expect((await validator.validateAsync({ cargo: 'protomolecule' })).errors).toMatchObject([{ path: 'cargo', error: 'Absolutely not' }])
+    })
+
+    it('should only run asynchronous rules of the branch of a union that matched', async () => {
+        const idValidator = oneOf(Rules.isNumber(), crewMemberValidator)
+        const result = await idValidator.validateAsync({ username: 'holden', shipId: 'rocinante' }, { concurrency: 1 })
+        expect(result).toMatchObject({ valid: false, errors: [{ path: 'username', error: 'holden is already taken' }] })
+    })
+})
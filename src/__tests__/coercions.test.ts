@@ -0,0 +1,166 @@
+import {
+    Coerce,
+    InferOutput,
+    Rules,
+    ValidationError,
+    arrayOf,
+    objectOf,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+describe('Coercions', () => {
+    describe('preprocessors', () => {
+        it('should convert numeric strings to numbers, and leave anything else alone', () => {
+            expect(Coerce.toNumber('470')).toBe(470)
+            expect(Coerce.toNumber(' 4.7e2 ')).toBe(470)
+            expect(Coerce.toNumber('')).toBe('')
+            expect(Coerce.toNumber('-.5')).toBe(-0.5)
+            expect(Coerce.toNumber('lots')).toBe('lots')
+            expect(Coerce.toNumber('0x10')).toBe('0x10')
+            expect(Coerce.toNumber('Infinity')).toBe('Infinity')
+            expect(Coerce.toNumber('1e400')).toBe('1e400')
+            expect(Coerce.toNumber(null)).toBe(null)
+        })
+
+        it('should convert boolean-like strings to booleans', () => {
+            expect(Coerce.toBoolean('TRUE')).toBe(true)
+            expect(Coerce.toBoolean(' on ')).toBe(true)
+            expect(Coerce.toBoolean('0')).toBe(false)
+            expect(Coerce.toBoolean(0)).toBe(false)
+            expect(Coerce.toBoolean('maybe')).toBe('maybe')
+        })
+
+        it('should convert date strings and timestamps to Dates', () => {
+            expect(Coerce.toDate('2020-11-05T00:00:00.000Z')).toEqual(new Date(Date.UTC(2020, 10, 5)))
+            expect(Coerce.toDate(0)).toEqual(new Date(0))
+            expect(Coerce.toDate('')).toBe('')
+        })
+
+        it('should normalize strings', () => {
+            expect(Coerce.trim('  Rocinante ')).toBe('Rocinante')
+            expect(Coerce.toLowerCase('MCRN')).toBe('mcrn')
+            expect(Coerce.toUpperCase('mcrn')).toBe('MCRN')
+            expect(Coerce.trim(7)).toBe(7)
+        })
+    })
+
+    describe('coercing validators', () => {
+        it('should coerce when parsing, but not when used as a type guard', () => {
+            expect(Coerce.number().parse('470')).toBe(470)
+            expect(Coerce.boolean().parse('false')).toBe(false)
+            expect(Coerce.date().parse('2020-11-05')).toEqual(new Date('2020-11-05'))
+            expect(Coerce.string().parse(1701)).toBe('1701')
+
+            expect(Coerce.number()('470')).toBe(false)
+            expect(Coerce.number()(470)).toBe(true)
+        })
+
+        it('should report the original value when it cannot be coerced', () => {
+            expect(Coerce.number().safeParse('lots')).toMatchObject({
+                valid: false,
+                errors: [{ code: 'number.type', value: 'lots' }]
+            })
+            expect(Coerce.date().safeParse('the heat death of the universe')).toMatchObject({
+                valid: false,
+                errors: [{ code: 'date.invalid' }]
+            })
+        })
+
+        it('should run rules against the coerced value', () => {
+            const crewCountValidator = Coerce.number().withRule(Rules.isInteger())
+
+            expect(crewCountValidator.safeParse('4')).toEqual({ valid: true, value: 4, errors: [] })
+            expect(crewCountValidator.safeParse('4.5')).toMatchObject({
+                valid: false,
+                errors: [{ error: 'Expected an integer, but got 4.5' }]
+            })
+        })
+
+        it('should run rules added after a coercion against the coerced value', () => {
+            const validator = validatorFor<any>().withRule(Coerce.number()).withRule(Rules.min(3))
+
+            expect(validator.safeParse('5')).toEqual({ valid: true, value: 5, errors: [] })
+            expect(validator.safeParse('2')).toMatchObject({ valid: false, errors: [{ code: 'number.tooSmall' }] })
+            expect(validator('5')).toBe(false)
+        })
+
+        it('should convert strings spelling one of the allowed values', () => {
+            const crewSizeValidator = Coerce.oneOf([1, 2, 4] as const)
+
+            expect(crewSizeValidator.parse(' 4 ')).toBe(4)
+            expect(crewSizeValidator.safeParse('3')).toMatchObject({ valid: false, errors: [{ code: 'enum.invalid' }] })
+            expect(Coerce.oneOf([true, 'auto'] as const).parse('true')).toBe(true)
+        })
+
+        it('should trim URLs before checking them', () => {
+            expect(Coerce.url().parse(' https://tycho.belt/ ')).toBe('https://tycho.belt/')
+            expect(Coerce.url()(' https://tycho.belt/ ')).toBe(false)
+        })
+    })
+
+    describe('parsing objects', () => {
+        const queryValidator = objectOf({
+            name: Coerce.string().preprocess(Coerce.trim),
+            crewCount: Coerce.number().default(1),
+            safeInAtmosphere: Coerce.boolean().default(false),
+            tags: Coerce.string().default('').transform(x => x === '' ? [] : x.split(','))
+        })
+
+        it('should produce the coerced, defaulted and transformed output', () => {
+            const result = queryValidator.safeParse({ name: ' Rocinante ', crewCount: '4', tags: 'mcrn,frigate' })
+
+            expect(result).toEqual({
+                valid: true,
+                value: { name: 'Rocinante', crewCount: 4, safeInAtmosphere: false, tags: ['mcrn', 'frigate'] },
+                errors: []
+            })
+        })
+
+        it('should track the output type separately from the checked type', () => {
+            type Query = InferOutput<typeof queryValidator>
+            const query: Query = queryValidator.parse({ name: 'Rocinante' })
+            const tags: string[] = query.tags
+
+            expect(tags).toEqual([])
+        })
+
+        it('should collect errors with paths through nested validators', () => {
+            const validator = objectOf({
+                engines: arrayOf(objectOf({ maxAcceleration: Coerce.number() }))
+            })
+            const errors: ValidationError[] = validator.safeParse({
+                engines: [{ maxAcceleration: '12' }, { maxAcceleration: 'fast' }, {}]
+            }).errors
+
+            expect(errors.map(({ path, code }) => ({ path, code }))).toIncludeSameMembers([
+                { path: 'engines[1].maxAcceleration', code: 'number.type' },
+                { path: 'engines[2].maxAcceleration', code: 'object.required' }
+            ])
+        })
+
+        it('should run rules for the whole object against the coerced properties', () => {
+            const rangeValidator = objectOf({ min: Coerce.number(), max: Coerce.number() })
+                .withRule((range) => range.min <= range.max, (range) => `${range.min} is more than ${range.max}`)
+
+            expect(rangeValidator.parse({ min: '9', max: '10' })).toEqual({ min: 9, max: 10 })
+            expect(rangeValidator.safeParse({ min: '10', max: '9' })).toMatchObject({ valid: false, errors: [{ error: '10 is more than 9' }] })
+        })
+
+        it('should run later rules for a property against the value produced by earlier ones', () => {
+            const validator = validatorFor<{ name: string }>()
+                .withRuleFor('name', Coerce.string().preprocess(Coerce.trim))
+                .withRuleFor('name', Rules.maxLength(9))
+
+            expect(validator.parse({ name: '  Rocinante  ' })).toEqual({ name: 'Rocinante' })
+        })
+
+        it('should keep coerced values produced inside collections', () => {
+            const validator = validatorFor<{ counts: number[] }>()
+                .withRuleFor('counts', arrayOf(Coerce.number()))
+
+            expect(validator.parse({ counts: ['1', 2, '3'] })).toEqual({ counts: [1, 2, 3] })
+        })
+    })
+})
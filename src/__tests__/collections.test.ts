@@ -0,0 +1,200 @@
+import * as vm from 'vm'
+import {
+    Rules,
+    ValidationError,
+    arrayOf,
+    mapOf,
+    recordOf,
+    setOf,
+    tupleOf,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+// Compares errors by path and message only
+const withoutDetails = ({ path, error }: ValidationError) => ({ path, error })
+
+interface SpaceshipEngine {
+    type: string,
+    maxAcceleration: number
+}
+
+const engineValidator = validatorFor<SpaceshipEngine>()
+    .withRuleFor('type', Rules.isOneOf(['Fusion Rocket', 'Chemical Rocket']))
+    .withRuleFor('maxAcceleration', Rules.isNumber())
+
+function aFusionEngine(): SpaceshipEngine {
+    return { type: 'Fusion Rocket', maxAcceleration: 90000 }
+}
+
+describe('Collection validators', () => {
+    describe('arrayOf', () => {
+        it('should function as a type guard for arrays', () => {
+            const value: any = [aFusionEngine()]
+            const validator = arrayOf(engineValidator)
+            if (validator(value)) {
+                const engines: SpaceshipEngine[] = value
+                expect(engines).toHaveLength(1)
+            }
+            expect(validator(value)).toBe(true)
+            expect(validator([])).toBe(true)
+        })
+
+        it('should reject things that are not arrays', () => {
+            const errors: ValidationError[] = []
+            expect(arrayOf(engineValidator)({ 0: aFusionEngine() }, errors, 'engines')).toBe(false)
+            expect(errors).toMatchObject([{ path: 'engines', error: 'Expected an array, but got type object' }])
+        })
+
+        it('should report errors for each failing element at an indexed path', () => {
+            const errors: ValidationError[] = []
+            const engines = [aFusionEngine(), aFusionEngine(), { type: 'Warp Drive', maxAcceleration: 1 }, { type: 'Fusion Rocket', maxAcceleration: 'fast' }]
+
+            expect(arrayOf(engineValidator)(engines, errors, 'engines')).toBe(false)
+            expect(errors.map(withoutDetails)).toIncludeSameMembers([
+                { path: 'engines[2].type', error: "Expected one of 'Fusion Rocket', 'Chemical Rocket', but got 'Warp Drive'" },
+                { path: 'engines[3].maxAcceleration', error: 'Expected value of type number, but got type string' }
+            ])
+        })
+
+        it('should support indexed paths at the root', () => {
+            const errors: ValidationError[] = []
+            arrayOf(Rules.isString())(['ok', 7], errors)
+            expect(errors).toMatchObject([{ path: '[1]', error: 'Expected value of type string, but got type number' }])
+        })
+
+        it('should support length constraints', () => {
+            const errors: ValidationError[] = []
+            const validator = arrayOf(Rules.isString(), { minLength: 1, maxLength: 2 })
+
+            expect(validator(['a'])).toBe(true)
+            expect(validator([], errors, 'crew')).toBe(false)
+            expect(validator(['a', 'b', 'c'], errors, 'crew')).toBe(false)
+            expect(errors).toMatchObject([
+                { path: 'crew', error: 'Expected at least 1 elements, but got 0' },
+                { path: 'crew', error: 'Expected at most 2 elements, but got 3' }
+            ])
+        })
+
+        it('should support uniqueness constraints, optionally by key', () => {
+            const errors: ValidationError[] = []
+            expect(arrayOf(Rules.isString(), { unique: true })(['a', 'b', 'a'], errors, 'crew')).toBe(false)
+            expect(arrayOf(engineValidator, { unique: (engine) => engine.type })([aFusionEngine(), aFusionEngine()], errors, 'engines')).toBe(false)
+            expect(arrayOf(engineValidator, { unique: true })([aFusionEngine(), aFusionEngine()])).toBe(true)
+            expect(errors).toMatchObject([
+                { path: 'crew[2]', error: 'Duplicate of the element at index 0' },
+                { path: 'engines[1]', error: 'Duplicate of the element at index 0' }
+            ])
+        })
+
+        it('should nest inside object validators', () => {
+            const shipValidator = validatorFor<{ engines: SpaceshipEngine[] }>()
+                .withRuleFor('engines', arrayOf(engineValidator))
+            const errors: ValidationError[] = []
+
+            shipValidator({ engines: [aFusionEngine(), { type: 'Warp Drive', maxAcceleration: 1 }] }, errors, 'ship')
+
+            expect(errors).toMatchObject([
+                { path: 'ship.engines[1].type', error: "Expected one of 'Fusion Rocket', 'Chemical Rocket', but got 'Warp Drive'" }
+            ])
+        })
+    })
+
+    describe('tupleOf', () => {
+        const coordinateValidator = tupleOf(Rules.isNumber(), Rules.isNumber(), Rules.isString())
+
+        it('should check each position against its own validator', () => {
+            const value: any = [1, 2, 'Alpha Centauri']
+            if (coordinateValidator(value)) {
+                const coordinate: [number, number, string] = value
+                expect(coordinate[2]).toBe('Alpha Centauri')
+            }
+            expect(coordinateValidator(value)).toBe(true)
+
+            const errors: ValidationError[] = []
+            expect(coordinateValidator([1, '2', 'Sol'], errors, 'location')).toBe(false)
+            expect(errors).toMatchObject([{ path: 'location[1]', error: 'Expected value of type number, but got type string' }])
+        })
+
+        it('should require exactly the right number of elements', () => {
+            const errors: ValidationError[] = []
+            expect(coordinateValidator([1, 2], errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: '', error: 'Expected exactly 3 elements, but got 2' }])
+        })
+    })
+
+    describe('recordOf', () => {
+        it('should check every value and report errors at the key path', () => {
+            const errors: ValidationError[] = []
+            const validator = recordOf(engineValidator)
+
+            expect(validator({ port: aFusionEngine(), starboard: aFusionEngine() })).toBe(true)
+            expect(validator({ port: aFusionEngine(), starboard: { type: 'Sail', maxAcceleration: 0 } }, errors, 'engines')).toBe(false)
+            expect(errors).toMatchObject([
+                { path: 'engines.starboard.type', error: "Expected one of 'Fusion Rocket', 'Chemical Rocket', but got 'Sail'" }
+            ])
+        })
+
+        it('should check keys if a key validator is passed in', () => {
+            const errors: ValidationError[] = []
+            const validator = recordOf(engineValidator, Rules.isOneOf(['port', 'starboard']))
+
+            expect(validator({ aft: aFusionEngine() }, errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: 'aft', error: "Expected one of 'port', 'starboard', but got 'aft'" }])
+        })
+
+        it('should keep a __proto__ key as an ordinary property when parsing', () => {
+            const parsed: any = recordOf(Rules.isString()).parse(JSON.parse('{ "__proto__": "polluted", "name": "Rocinante" }'))
+
+            expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype)
+            expect(Object.keys(parsed)).toEqual(['__proto__', 'name'])
+            expect(Object.getOwnPropertyDescriptor(parsed, '__proto__')).toMatchObject({ value: 'polluted', enumerable: true })
+        })
+
+        it('should reject arrays and null', () => {
+            expect(recordOf(Rules.isString())(['a'])).toBe(false)
+            expect(recordOf(Rules.isString())(null)).toBe(false)
+        })
+    })
+
+    describe('mapOf', () => {
+        it('should check keys and values of a Map', () => {
+            const errors: ValidationError[] = []
+            const validator = mapOf(Rules.isString(), engineValidator, { maxLength: 2 })
+            const engines = new Map<any, any>([['port', aFusionEngine()], ['aft', { type: 'Sail', maxAcceleration: 'slow' }]])
+
+            expect(validator(new Map([['port', aFusionEngine()]]))).toBe(true)
+            expect(validator(engines, errors, 'engines')).toBe(false)
+            expect(validator({ port: aFusionEngine() })).toBe(false)
+            expect(errors.map(withoutDetails)).toIncludeSameMembers([
+                { path: 'engines.aft.type', error: "Expected one of 'Fusion Rocket', 'Chemical Rocket', but got 'Sail'" },
+                { path: 'engines.aft.maxAcceleration', error: 'Expected value of type number, but got type string' }
+            ])
+        })
+    })
+
+    describe('setOf', () => {
+        it('should check every element of a Set', () => {
+            const errors: ValidationError[] = []
+            const validator = setOf(Rules.isString())
+
+            expect(validator(new Set(['Rocinante', 'Canterbury']))).toBe(true)
+            expect(validator(new Set(['Rocinante', 42]), errors, 'names')).toBe(false)
+            expect(validator(['Rocinante'])).toBe(false)
+            expect(errors).toMatchObject([{ path: 'names[1]', error: 'Expected value of type string, but got type number' }])
+        })
+    })
+
+    describe('objects from other realms', () => {
+        it('should accept Maps and Sets from other realms, and not count them as records', () => {
+            const foreignMap = vm.runInNewContext("new Map([['port', 'fusion']])")
+            const foreignSet = vm.runInNewContext("new Set(['Rocinante'])")
+
+            expect(mapOf(Rules.isString(), Rules.isString())(foreignMap)).toBe(true)
+            expect(setOf(Rules.isString())(foreignSet)).toBe(true)
+            expect(recordOf(Rules.isString())(foreignMap)).toBe(false)
+            expect(recordOf(Rules.isString())(foreignSet)).toBe(false)
+        })
+    })
+})
@@ -0,0 +1,207 @@
+import {
+    Rules,
+    ValidationError,
+    allOf,
+    discriminated,
+    objectOf,
+    oneOf,
+    oneOfWith,
+    toJsonSchema,
+    validatorFor,
+    when
+} from '../index'
+
+import 'jest-extended'
+
+// Compares errors by path and message only
+const withoutDetails = ({ path, error }: ValidationError) => ({ path, error })
+
+interface FusionEngine {
+    type: 'fusion',
+    maxAcceleration: number
+}
+
+interface IonEngine {
+    type: 'ion',
+    thrustInNewtons: number
+}
+
+const fusionEngineValidator = objectOf({
+    type: Rules.isOneOf(['fusion'] as const),
+    maxAcceleration: Rules.isNumber()
+})
+
+const ionEngineValidator = objectOf({
+    type: Rules.isOneOf(['ion'] as const),
+    thrustInNewtons: Rules.isNumber()
+})
+
+describe('Union and intersection combinators', () => {
+    describe('oneOf', () => {
+        const engineValidator = oneOf(fusionEngineValidator, ionEngineValidator)
+
+        it('should accept values matching any branch, narrowing to the union', () => {
+            const value: any = { type: 'ion', thrustInNewtons: 0.5 }
+            if (engineValidator(value)) {
+                const engine: FusionEngine | IonEngine = value
+                expect(engine.type).toBe('ion')
+            }
+            expect(engineValidator(value)).toBe(true)
+            expect(engineValidator({ type: 'fusion', maxAcceleration: 90000 })).toBe(true)
+            expect(engineValidator({ type: 'warp' })).toBe(false)
+        })
+
+        it('should combine primitive validators', () => {
+            const idValidator = oneOf(Rules.isString(), Rules.isNumber())
+            expect(idValidator('NCC-1701')).toBe(true)
+            expect(idValidator(1701)).toBe(true)
+            expect(idValidator(null)).toBe(false)
+        })
+
+        it('should only report errors from the closest matching branch', () => {
+            const errors: ValidationError[] = []
+            const shipIdValidator = oneOf(Rules.isString(), engineValidator)
+
+            expect(shipIdValidator({ type: 'fusion', maxAcceleration: 'lots' }, errors, 'engine')).toBe(false)
+            expect(errors).toMatchObject([
+                { path: 'engine.maxAcceleration', error: 'Expected value of type number, but got type string' }
+            ])
+        })
+
+        it('should group errors by branch when asked to', () => {
+            const errors: ValidationError[] = []
+            const idValidator = oneOfWith({ errors: 'grouped' }, Rules.isString(), Rules.isNumber())
+
+            expect(idValidator(true, errors, 'id')).toBe(false)
+            expect(errors).toMatchObject([{
+                path: 'id',
+                error: 'Expected value to match one of 2 alternatives',
+                branches: [
+                    [{ path: 'id', error: 'Expected value of type string, but got type boolean' }],
+                    [{ path: 'id', error: 'Expected value of type number, but got type boolean' }]
+                ]
+            }])
+        })
+    })
+
+    describe('allOf', () => {
+        const namedValidator = objectOf({ name: Rules.isString() })
+        const crewedValidator = objectOf({ crewCount: Rules.isInteger() })
+        const validator = allOf(namedValidator, crewedValidator)
+
+        it('should require every validator to pass, narrowing to the intersection', () => {
+            const value: any = { name: 'Rocinante', crewCount: 4 }
+            if (validator(value)) {
+                const ship: { name: string } & { crewCount: number } = value
+                expect(ship.crewCount).toBe(4)
+            }
+            expect(validator(value)).toBe(true)
+            expect(validator({ name: 'Rocinante' })).toBe(false)
+        })
+
+        it('should report errors from every validator', () => {
+            const errors: ValidationError[] = []
+            validator({ name: 7, crewCount: 'four' }, errors)
+            expect(errors.map(withoutDetails)).toIncludeSameMembers([
+                { path: 'name', error: 'Expected value of type string, but got type number' },
+                { path: 'crewCount', error: "Expected an integer, but got 'four'" }
+            ])
+        })
+
+        it('should keep the properties known to any validator when stripping', () => {
+            const stripping = allOf(namedValidator.withUnknownKeys('strip'), crewedValidator.withUnknownKeys('strip'))
+            const result = stripping.safeParse({ name: 'Rocinante', crewCount: 4, captain: 'Holden' })
+            expect(result.valid && result.value).toEqual({ name: 'Rocinante', crewCount: 4 })
+        })
+    })
+
+    describe('discriminated', () => {
+        const engineValidator = discriminated('type', {
+            fusion: fusionEngineValidator,
+            ion: ionEngineValidator
+        })
+
+        it('should pick the validator by discriminator, narrowing each branch', () => {
+            const value: any = { type: 'fusion', maxAcceleration: 90000 }
+            if (engineValidator(value)) {
+                const engine: FusionEngine | IonEngine = value
+                if (value.type === 'fusion') {
+                    expect(value.maxAcceleration).toBe(90000)
+                }
+                expect(engine.type).toBe('fusion')
+            }
+            expect(engineValidator(value)).toBe(true)
+        })
+
+        it('should only report errors from the selected branch', () => {
+            const errors: ValidationError[] = []
+            expect(engineValidator({ type: 'ion', thrustInNewtons: 'lots' }, errors, 'engine')).toBe(false)
+            expect(errors).toMatchObject([
+                { path: 'engine.thrustInNewtons', error: 'Expected value of type number, but got type string' }
+            ])
+        })
+
+        it('should report unknown discriminators at the discriminator path', () => {
+            const errors: ValidationError[] = []
+            expect(engineValidator({ type: 'warp' }, errors, 'engine')).toBe(false)
+            expect(engineValidator(null, errors, 'engine')).toBe(false)
+            expect(errors).toMatchObject([
+                { path: 'engine.type', error: "Expected one of 'fusion', 'ion', but got 'warp'" },
+                { path: 'engine', error: 'Expected an object, but got null' }
+            ])
+        })
+    })
+
+    describe('when', () => {
+        interface Engine {
+            type: string
+            fuel?: string
+            thrustInNewtons?: number
+        }
+
+        const engineValidator = validatorFor<Engine>()
+            .withRuleFor('type', Rules.isString())
+            .withRule(when(
+                (x) => x.type === 'fusion',
+                validatorFor<Engine>().withRuleFor('fuel', Rules.isString()),
+                validatorFor<Engine>().withRuleFor('thrustInNewtons', Rules.isNumber())
+            ))
+
+        it('should check values with the then or else validator, depending on the predicate', () => {
+            expect(engineValidator({ type: 'fusion', fuel: 'deuterium' })).toBe(true)
+            expect(engineValidator({ type: 'ion', thrustInNewtons: 0.5 })).toBe(true)
+
+            const errors: ValidationError[] = []
+            expect(engineValidator({ type: 'ion', thrustInNewtons: 'lots' }, errors, 'engines[0]')).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([
+                { path: 'engines[0].thrustInNewtons', error: 'Expected value of type number, but got type string' }
+            ])
+        })
+
+        it('should require fields only when the condition holds', () => {
+            const validator = validatorFor<Engine>()
+                .withRule(when((x) => x.type === 'fusion', validatorFor<Engine>().withRuleFor('fuel', Rules.isString())))
+
+            expect(validator({ type: 'ion' })).toBe(true)
+            expect(validator({ type: 'fusion' })).toBe(false)
+            expect(validator.safeParse({ type: 'fusion' })).toMatchObject({
+                valid: false,
+                errors: [{ path: 'fuel', code: 'object.required' }]
+            })
+        })
+
+        it('should accept validators as predicates, and export them as if/then/else', () => {
+            const validator = when(
+                objectOf({ type: Rules.isOneOf(['fusion'] as const) }),
+                objectOf({ fuel: Rules.isString() })
+            )
+
+            expect(validator({ type: 'fusion', fuel: 'deuterium' })).toBe(true)
+            expect(validator({ type: 'fusion' })).toBe(false)
+            expect(toJsonSchema(validator).schema).toMatchObject({
+                if: { properties: { type: { enum: ['fusion'] } } },
+                then: { properties: { fuel: { type: 'string' } }, required: ['fuel'] }
+            })
+        })
+    })
+})
@@ -0,0 +1,153 @@
+import {
+    Rules,
+    ValidationError,
+    Validator,
+    arrayOf,
+    compile,
+    lazy,
+    metadataOf,
+    objectOf,
+    optionValidator,
+    recordOf,
+    tupleOf,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+interface Crew {
+    name: string
+    subordinates: Crew[]
+}
+
+const crewValidator: Validator<Crew> = objectOf({
+    name: Rules.isString(),
+    subordinates: arrayOf(lazy(() => crewValidator))
+})
+
+const engineValidator = objectOf({
+    type: Rules.isOneOf(['fusion', 'ion'] as const),
+    maxAcceleration: validatorFor<number>().withRule(Rules.isNumber()).withRule(Rules.min(0))
+}).withUnknownKeys('strict')
+
+const spaceshipValidator = objectOf({
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3)),
+    "callsign's": validatorFor<string>().withRule(Rules.isString()).optional(),
+    captain: optionValidator(crewValidator),
+    engines: arrayOf(engineValidator, { minLength: 1, unique: (engine) => engine.type }),
+    position: tupleOf(Rules.isNumber(), Rules.isNumber()),
+    cargo: recordOf(Rules.isInteger(), Rules.matches(/^[a-z]+$/), { maxLength: 2 }),
+    registry: validatorFor<string>().withRule(Rules.isUUID()).nullish()
+})
+    .withRule((ship) => ship.name !== ship.registry, (ship) => 'The name cannot be the registry')
+    .withAsyncRuleFor('registry', () => Promise.resolve(true), () => 'Unavailable')
+
+function aValidSpaceship(): any {
+    return {
+        name: 'Rocinante',
+        captain: { name: 'Holden', subordinates: [{ name: 'Nagata', subordinates: [] }] },
+        engines: [{ type: 'fusion', maxAcceleration: 12 }, { type: 'ion', maxAcceleration: 0.1 }],
+        position: [1, 2],
+        cargo: { water: 10 }
+    }
+}
+
+const variations: [string, (ship: any) => void][] = [
+    ['a valid ship', () => { }],
+    ['an optional property', (ship) => { ship["callsign's"] = 'Roci' }],
+    ['a bad optional property', (ship) => { ship["callsign's"] = 7 }],
+    ['a missing property', (ship) => { delete ship.name }],
+    ['a property failing its second rule', (ship) => { ship.name = 'Ro' }],
+    ['a bad nested property', (ship) => { ship.captain.subordinates[0].name = 7 }],
+    ['no captain', (ship) => { ship.captain = null }],
+    ['too few engines', (ship) => { ship.engines = [] }],
+    ['duplicate engines', (ship) => { ship.engines[1].type = 'fusion' }],
+    ['an unknown engine property', (ship) => { ship.engines[0].warpCoils = 2 }],
+    ['a short tuple', (ship) => { ship.position = [1] }],
+    ['a bad record key', (ship) => { ship.cargo = { Water: 1 } }],
+    ['too many record keys', (ship) => { ship.cargo = { a: 1, b: 2, c: 3 } }],
+    ['an undefined registry', (ship) => { ship.registry = undefined }],
+    ['a null registry, which leaves an asynchronous rule to run', (ship) => { ship.registry = null }],
+    ['a failing whole object rule', (ship) => { ship.registry = ship.name = '0b6b8f8e-3f3b-4b8e-9b8e-3f3b4b8e9b8e' }],
+    ['a null prototype', (ship) => { Object.setPrototypeOf(ship, null) }]
+]
+
+describe('compile', () => {
+    [false, true].forEach(generateCode => describe(generateCode ? 'with generated code' : 'without generated code', () => {
+        const compiled = compile(spaceshipValidator, { generateCode })
+
+        variations.forEach(([description, vary]) => {
+            it(`should give the same result and errors as the original for ${description}`, () => {
+                const ship = aValidSpaceship()
+                vary(ship)
+                const originalErrors: ValidationError[] = []
+                const compiledErrors: ValidationError[] = []
+
+                expect(compiled(ship)).toBe(spaceshipValidator(ship))
+                expect(compiled(ship, compiledErrors, 'ship')).toBe(spaceshipValidator(ship, originalErrors, 'ship'))
+                expect(compiledErrors).toEqual(originalErrors)
+            })
+        })
+
+        it('should reject values that are not objects', () => {
+            [null, undefined, 'Rocinante', [], 42].forEach(value => {
+                expect(compiled(value)).toBe(false)
+            })
+        })
+    }))
+
+    it('should parse nested compiled validators like the originals', async () => {
+        const fleetValidator = objectOf({ ships: arrayOf(compile(spaceshipValidator.withUnknownKeys('strip'))) })
+        const ship = { ...aValidSpaceship(), registry: null, warpCoils: 2 }
+
+        expect(await fleetValidator.validateAsync({ ships: [ship] })).toEqual({
+            valid: true,
+            value: { ships: [{ ...aValidSpaceship(), registry: null }] },
+            errors: []
+        })
+    })
+
+    it('should apply unknown key policies to nested objects like the original', () => {
+        const crewmanValidator = objectOf({ name: Rules.isString() })
+        const shipValidator = objectOf({ crew: arrayOf(crewmanValidator) }).withUnknownKeys('strict')
+        const compiled = [compile(shipValidator), compile(shipValidator, { generateCode: true })]
+        const nested = objectOf({ ships: arrayOf(compile(crewmanValidator)) }).withUnknownKeys('strict')
+
+        compiled.forEach(validator => {
+            expect(validator({ crew: [{ name: 'Holden' }] })).toBe(true)
+            expect(validator({ crew: [{ name: 'Holden', rank: 'Captain' }] })).toBe(false)
+        })
+        expect(compile(crewmanValidator)({ name: 'Holden', rank: 'Captain' })).toBe(true)
+        expect(nested({ ships: [{ name: 'Holden', rank: 'Captain' }] })).toBe(false)
+    })
+
+    it('should call validators it cannot flatten as they are', () => {
+        const isEven = (x: any): x is number => typeof x === 'number' && x % 2 === 0
+        const compiled = compile(arrayOf(isEven))
+
+        expect(compiled([2, 4])).toBe(true)
+        expect(compiled([2, 3])).toBe(false)
+    })
+
+    it('should read getters of class instances like the original', () => {
+        class Engine {
+            constructor(readonly thrust: number) {}
+
+            get type(): string {
+                return this.thrust > 10 ? 'fusion' : 'ion'
+            }
+        }
+        const instanceValidator = Rules.instanceOf(Engine).withRuleFor('type', Rules.isOneOf(['fusion'] as const))
+        const compiled = [compile(instanceValidator), compile(instanceValidator, { generateCode: true })]
+
+        compiled.forEach(validator => {
+            expect(validator(new Engine(12))).toBe(true)
+            expect(validator(new Engine(2))).toBe(false)
+            expect(validator({ thrust: 12 })).toBe(false)
+        })
+    })
+
+    it('should keep the metadata of the original', () => {
+        expect(metadataOf(compile(engineValidator))).toEqual(metadataOf(engineValidator))
+    })
+})
@@ -0,0 +1,148 @@
+import {
+    Coerce,
+    Rules,
+    ValidationException,
+    arrayOf,
+    configFor,
+    parseDotenv,
+    secret,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+const loader = configFor({
+    PORT: Coerce.number().default(8080),
+    DEBUG: Coerce.boolean().default(false),
+    LOG_LEVEL: Coerce.oneOf(['debug', 'info', 'warn'] as const).default('info'),
+    DATABASE_URL: Coerce.url(),
+    API_KEY: secret(validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(32)))
+})
+
+const API_KEY = 'k'.repeat(32)
+
+describe('Configuration', () => {
+    describe('configFor', () => {
+        it('should coerce variables, apply defaults and return a frozen config', () => {
+            const config = loader.load({
+                PORT: '3000',
+                DEBUG: 'yes',
+                DATABASE_URL: ' postgres://db.tycho.belt/ships ',
+                API_KEY,
+                HOME: '/home/holden'
+            })
+
+            expect(config).toEqual({
+                PORT: 3000,
+                DEBUG: true,
+                LOG_LEVEL: 'info',
+                DATABASE_URL: 'postgres://db.tycho.belt/ships',
+                API_KEY
+            })
+            const port: number = config.PORT
+            const level: 'debug' | 'info' | 'warn' = config.LOG_LEVEL
+            expect([port, level]).toEqual([3000, 'info'])
+            expect(Object.isFrozen(config)).toBe(true)
+        })
+
+        it('should report every missing or invalid variable at once', () => {
+            const result = loader.safeLoad({ PORT: 'eighty', LOG_LEVEL: 'verbose', DATABASE_URL: '' })
+
+            expect(result.valid).toBe(false)
+            expect(result.errors.map(({ path, code }) => ({ path, code }))).toEqual([
+                { path: 'PORT', code: 'number.type' },
+                { path: 'LOG_LEVEL', code: 'enum.invalid' },
+                { path: 'DATABASE_URL', code: 'object.required' },
+                { path: 'API_KEY', code: 'object.required' }
+            ])
+        })
+
+        it('should redact the values of secrets in errors', () => {
+            const result = loader.safeLoad({ DATABASE_URL: 'postgres://db', API_KEY: 'hunter2' })
+
+            expect(result.errors).toEqual([{
+                path: 'API_KEY',
+                error: 'Expected a valid secret, but got [REDACTED]',
+                code: 'string.tooShort',
+                value: '[REDACTED]'
+            }])
+
+            const mismatch = configFor({ TOKEN: secret(Rules.matches(/^tok_/)) }).safeLoad({ TOKEN: 'hunter2' })
+            expect(mismatch.errors).toEqual([{ path: 'TOKEN', error: 'Expected a valid secret, but got [REDACTED]', code: 'string.pattern', value: '[REDACTED]' }])
+        })
+
+        it('should redact secrets changed by preprocessing before they were reported', () => {
+            const result = configFor({ DATABASE_URL: secret(Coerce.url()) }).safeLoad({ DATABASE_URL: ' postgres-password-hunter2 ' })
+
+            expect(result.valid).toBe(false)
+            expect(JSON.stringify(result.errors)).not.toContain('hunter2')
+            expect(result.errors).toMatchObject([{ path: 'DATABASE_URL', error: 'Expected a valid secret, but got [REDACTED]' }])
+        })
+
+        it('should redact secrets whose validators were derived or wrapped', () => {
+            const result = configFor({
+                API_KEY: secret(validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(32))).default(API_KEY),
+                TOKEN: secret(Coerce.string().withRule(Rules.matches(/^tok_/))).transform(token => token.slice(4)),
+                PASSWORD: validatorFor<string>().withRule(secret(Rules.minLength(8))).optional()
+            }).safeLoad({ API_KEY: 'hunter2', TOKEN: 'hunter2', PASSWORD: 'hunter2' })
+
+            expect(result.valid).toBe(false)
+            expect(result.errors.map(error => error.path)).toEqual(['API_KEY', 'TOKEN', 'PASSWORD'])
+            expect(JSON.stringify(result.errors)).not.toContain('hunter2')
+        })
+
+        it('should report missing secrets as missing', () => {
+            const result = configFor({ API_KEY: secret(Rules.isString()) }).safeLoad({})
+
+            expect(result.errors).toMatchObject([{ path: 'API_KEY', code: 'object.required' }])
+        })
+
+        it('should freeze the config without freezing the defaults it was given', () => {
+            const hosts = ['tycho', 'ceres']
+            const config = configFor({
+                HOSTS: arrayOf(Rules.isString()).default(hosts)
+            }).load({})
+
+            expect(config.HOSTS).toEqual(['tycho', 'ceres'])
+            expect(Object.isFrozen(config.HOSTS)).toBe(true)
+            expect(Object.isFrozen(hosts)).toBe(false)
+        })
+
+        it('should throw a ValidationException from load', () => {
+            expect(() => loader.load({})).toThrow(ValidationException)
+        })
+
+        it('should read .env files', () => {
+            const config = loader.load([
+                '# Where the fleet is stored',
+                'export DATABASE_URL="postgres://db.tycho.belt/ships"',
+                `API_KEY='${API_KEY}'`,
+                'PORT=3000 # the default is 8080',
+                'DEBUG='
+            ].join('\n'))
+
+            expect(config).toMatchObject({ DATABASE_URL: 'postgres://db.tycho.belt/ships', PORT: 3000, DEBUG: false })
+        })
+    })
+
+    describe('parseDotenv', () => {
+        it('should parse quoted values, comments and blank lines', () => {
+            expect(parseDotenv([
+                '',
+                '# comment',
+                'PLAIN = value',
+                'DOUBLE="line one\\nline two"',
+                'ESCAPED="a\\\\nb \\"quoted\\""',
+                "SINGLE='literal \\n # not a comment'",
+                'EMPTY=',
+                'not a variable'
+            ].join('\r\n'))).toEqual({
+                PLAIN: 'value',
+                DOUBLE: 'line one\nline two',
+                ESCAPED: 'a\\nb "quoted"',
+                SINGLE: 'literal \\n # not a comment',
+                EMPTY: ''
+            })
+        })
+    })
+})
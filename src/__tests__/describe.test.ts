@@ -0,0 +1,112 @@
+import {
+    Rules,
+    ValidatorBuilder,
+    arrayOf,
+    describe as describeValidator,
+    discriminated,
+    lazy,
+    metadataOf,
+    objectOf,
+    oneOf,
+    optionValidator,
+    recordOf,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+interface Crew {
+    name: string
+    subordinates: Crew[]
+}
+
+const crewValidator: ValidatorBuilder<Crew> = objectOf({
+    name: Rules.isString(),
+    subordinates: arrayOf(lazy(() => crewValidator, 'Crew'))
+})
+
+const engineValidator = objectOf({
+    type: Rules.isOneOf(['fusion', 'ion'] as const),
+    maxAcceleration: validatorFor<number>().withRule(Rules.isNumber()).withRule(Rules.min(0))
+}).withUnknownKeys('strict')
+
+const spaceshipValidator = objectOf({
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3)),
+    callsign: validatorFor<string>().withRule(Rules.isString()).optional(),
+    crewCount: validatorFor<number>().withRule(Rules.isInteger()).default(1),
+    captain: optionValidator(crewValidator),
+    engines: arrayOf(engineValidator, { minLength: 1, unique: true }),
+    cargo: recordOf(Rules.isInteger())
+})
+
+describe('Describing validators', () => {
+    describe('metadataOf', () => {
+        it('should keep describing rules through withRule, withRuleFor, optional and optionValidator', () => {
+            const validator = validatorFor<{ name?: string | null }>()
+                .withRuleFor('name', optionValidator(validatorFor<string>().withRule(Rules.isString()).withRule(Rules.maxLength(20)).optional()))
+                .withRule((x) => x.name !== 'Donnager', (x) => 'That name is taken')
+
+            expect(metadataOf(validator)).toMatchObject({
+                kind: 'builder',
+                rules: [{ kind: 'builder', rules: [{ kind: 'custom' }] }],
+                properties: {
+                    name: [{
+                        kind: 'nullable',
+                        validator: {
+                            kind: 'builder',
+                            optional: true,
+                            rules: [{ kind: 'rule', rule: 'isString' }, { kind: 'rule', rule: 'maxLength', params: { max: 20 } }]
+                        }
+                    }]
+                }
+            })
+        })
+    })
+
+    describe('describe', () => {
+        it('should describe fields, rules and nested validators as text', () => {
+            expect(describeValidator(spaceshipValidator)).toBe([
+                'object',
+                '    name: string, length at least 3',
+                '    callsign (optional): string',
+                '    crewCount (optional): integer, defaults to 1',
+                '    captain: object, or null',
+                '        name: string',
+                '        subordinates: array of object',
+                '            name: string',
+                '            subordinates: array of Crew (recursive)',
+                "    engines: array of object, no unknown properties, at least 1 item, no duplicates",
+                "        type: one of 'fusion', 'ion'",
+                '        maxAcceleration: number, at least 0',
+                '    cargo: record of integer'
+            ].join('\n'))
+        })
+
+        it('should describe fields as a nested Markdown list', () => {
+            expect(describeValidator(engineValidator, { format: 'markdown' })).toBe([
+                '**object, no unknown properties**',
+                '',
+                "- `type`: one of 'fusion', 'ion'",
+                '- `maxAcceleration`: number, at least 0'
+            ].join('\n'))
+        })
+
+        it('should describe unions, listing alternatives with fields separately', () => {
+            expect(describeValidator(oneOf(Rules.isString(), Rules.isInteger()))).toBe('one of string | integer')
+            expect(describeValidator(discriminated('type', {
+                fusion: objectOf({ maxAcceleration: Rules.isNumber() }),
+                ion: objectOf({ thrust: Rules.isNumber() })
+            }))).toBe([
+                "one of the following, chosen by 'type'",
+                "    type: 'fusion': object",
+                '        maxAcceleration: number',
+                "    type: 'ion': object",
+                '        thrust: number'
+            ].join('\n'))
+        })
+
+        it('should describe validators it knows nothing about as custom checks', () => {
+            expect(describeValidator((x: any): x is string => typeof x === 'string')).toBe('custom check')
+        })
+    })
+})
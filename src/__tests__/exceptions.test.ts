@@ -0,0 +1,110 @@
+import {
+    Rules,
+    ValidationError,
+    ValidationException,
+    arrayOf,
+    assertValid,
+    createMessageFormatter,
+    objectOf,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+const spaceshipValidator = objectOf({
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3)),
+    engines: arrayOf(objectOf({ type: Rules.isOneOf(['fusion', 'ion'] as const) }))
+}).withRule((ship) => ship.engines.length > 0, (ship) => 'Spaceships need engines')
+
+const errors: ValidationError[] = [
+    { path: '', error: 'Spaceships need engines' },
+    { path: 'name', error: 'Too short', code: 'string.tooShort' },
+    { path: 'engines[0].type', error: 'Unknown engine' },
+    { path: 'name', error: 'Not capitalized' }
+]
+
+function thrownBy(fn: () => void): any {
+    try {
+        fn()
+    } catch (e) {
+        return e
+    }
+    throw new Error('Expected an exception')
+}
+
+describe('Exceptions', () => {
+    describe('ValidationException', () => {
+        const exception = new ValidationException(errors)
+
+        it('should list the errors grouped by path in its message', () => {
+            expect(exception.message).toBe([
+                'Validation failed with 4 errors:',
+                '  (value):',
+                '    - Spaceships need engines',
+                '  name:',
+                '    - Too short',
+                '    - Not capitalized',
+                '  engines[0].type:',
+                '    - Unknown engine'
+            ].join('\n'))
+            expect(exception).toBeInstanceOf(Error)
+            expect(exception.name).toBe('ValidationException')
+        })
+
+        it('should group messages by path for forms with flatten, and errors with byPath', () => {
+            expect(exception.flatten()).toEqual({
+                '': ['Spaceships need engines'],
+                'name': ['Too short', 'Not capitalized'],
+                'engines[0].type': ['Unknown engine']
+            })
+            expect(exception.byPath().name).toEqual([errors[1], errors[3]])
+        })
+
+        it('should group errors at paths named like properties of Object.prototype', () => {
+            const unknownKeyValidator = objectOf({ name: Rules.isString() }).withUnknownKeys('strict')
+            const thrown = thrownBy(() => unknownKeyValidator.parse({ name: 'Rocinante', constructor: 1, toString: 2 }))
+
+            expect(thrown).toBeInstanceOf(ValidationException)
+            expect(thrown.flatten()).toEqual({
+                'constructor': ["Unexpected property 'constructor'"],
+                'toString': ["Unexpected property 'toString'"]
+            })
+            expect(new ValidationException([{ path: '__proto__', error: 'Not allowed' }]).byPath()['__proto__']).toHaveLength(1)
+        })
+
+        it('should serialize its message along with the errors', () => {
+            expect(JSON.parse(JSON.stringify(exception))).toEqual({
+                name: 'ValidationException',
+                message: exception.message,
+                errors
+            })
+        })
+    })
+
+    describe('assertValid', () => {
+        it('should narrow valid values to the type of the validator', () => {
+            const ship: unknown = { name: 'Rocinante', engines: [{ type: 'fusion' }] }
+
+            assertValid(spaceshipValidator, ship)
+            const name: string = ship.name
+            expect(name).toBe('Rocinante')
+        })
+
+        it('should throw a ValidationException holding every error for invalid values', () => {
+            const thrown = thrownBy(() => assertValid(spaceshipValidator, { name: 'Ro', engines: [{ type: 'warp' }] }))
+
+            expect(thrown).toBeInstanceOf(ValidationException)
+            expect(thrown.flatten()).toEqual({
+                'name': ['Expected a length of at least 3, but got a length of 2'],
+                'engines[0].type': ["Expected one of 'fusion', 'ion', but got 'warp'"]
+            })
+        })
+
+        it('should apply run options and message catalogs', () => {
+            const messages = createMessageFormatter({ en: { 'string.tooShort': 'Needs {min} characters' } })
+            const thrown = thrownBy(() => assertValid(spaceshipValidator, { name: 'Ro', engines: [{ type: 'warp' }] }, { maxErrors: 1, messages, locale: 'en' }))
+
+            expect(thrown.errors).toMatchObject([{ path: 'name', error: 'Needs 3 characters' }])
+        })
+    })
+})
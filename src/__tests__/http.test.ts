@@ -0,0 +1,210 @@
+import {
+    Coerce,
+    ExpressRequest,
+    FastifyRequest,
+    KoaContext,
+    Rules,
+    expressValidator,
+    fastifyValidator,
+    koaValidator,
+    objectOf,
+    oneOfWith,
+    validateRequest,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+const validators = {
+    params: objectOf({ id: Rules.isUUID() }),
+    query: objectOf({ page: Coerce.number().default(1) }),
+    body: objectOf({
+        name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3)),
+        crewCount: Rules.isInteger()
+    }).withAsyncRuleFor('name', (name) => Promise.resolve(name !== 'Donnager'), (name) => `${name} is taken`)
+}
+
+const ID = '0b6b8f8e-3f3b-4b8e-9b8e-3f3b4b8e9b8e'
+
+function aValidRequest(): any {
+    return {
+        params: { id: ID },
+        query: { page: '2' },
+        body: { name: 'Rocinante', crewCount: 4 },
+        headers: { 'content-type': 'application/json' }
+    }
+}
+
+function anInvalidRequest(): any {
+    return { ...aValidRequest(), params: { id: 'rocinante' }, body: { name: 'Ro' } }
+}
+
+function mockResponse() {
+    const response = {
+        statusCode: 200,
+        headers: {} as { [name: string]: string },
+        sent: undefined as any,
+        setHeader(name: string, value: string) {
+            response.headers[name] = value
+        },
+        end(body: string) {
+            response.sent = JSON.parse(body)
+        }
+    }
+    return response
+}
+
+describe('HTTP request validation', () => {
+    describe('validateRequest', () => {
+        it('should parse each part of a valid request', async () => {
+            const result = await validateRequest(validators, aValidRequest())
+
+            expect(result).toEqual({
+                valid: true,
+                value: { body: { name: 'Rocinante', crewCount: 4 }, query: { page: 2 }, params: { id: ID } },
+                errors: []
+            })
+            if (result.valid) {
+                const page: number = result.value.query.page
+                expect(page).toBe(2)
+            }
+        })
+
+        it('should report the errors of every part, prefixed with the part', async () => {
+            const result = await validateRequest(validators, anInvalidRequest())
+
+            expect(result.valid).toBe(false)
+            expect(result.errors.map(error => error.path)).toEqual(['body.name', 'body.crewCount', 'params.id'])
+        })
+
+        it('should apply maxErrors and abortEarly to the whole request', async () => {
+            const limited = await validateRequest(validators, anInvalidRequest(), { maxErrors: 2 })
+            const aborted = await validateRequest(validators, anInvalidRequest(), { abortEarly: true })
+
+            expect(limited.errors.map(error => error.path)).toEqual(['body.name', 'body.crewCount'])
+            expect(aborted.errors.map(error => error.path)).toEqual(['body.name'])
+        })
+
+        it('should run asynchronous rules', async () => {
+            const result = await validateRequest(validators, { ...aValidRequest(), body: { name: 'Donnager', crewCount: 4 } })
+
+            expect(result.errors).toMatchObject([{ path: 'body.name', error: 'Donnager is taken' }])
+        })
+    })
+
+    describe('expressValidator', () => {
+        it('should attach the parsed request and call the next handler', async () => {
+            const req: ExpressRequest<typeof validators> = aValidRequest()
+            const res = mockResponse()
+            const next = jest.fn()
+
+            await expressValidator(validators)(req, res, next)
+
+            expect(next).toHaveBeenCalledWith()
+            const page: number = req.validated!.query.page
+            // @ts-expect-error
+            const name: number = req.validated!.body.name
+            expect(page).toBe(2)
+            expect(name).toBe('Rocinante')
+            expect(res.sent).toBeUndefined()
+        })
+
+        it('should respond with problem details for invalid requests', async () => {
+            const res = mockResponse()
+            const next = jest.fn()
+
+            await expressValidator(validators)(anInvalidRequest(), res, next)
+
+            expect(next).not.toHaveBeenCalled()
+            expect(res.statusCode).toBe(400)
+            expect(res.headers['Content-Type']).toBe('application/problem+json')
+            expect(res.sent).toEqual({
+                type: 'about:blank',
+                title: 'The request is invalid',
+                status: 400,
+                detail: '3 errors were found in the request',
+                errors: [
+                    { path: 'body.name', error: 'Expected a length of at least 3, but got a length of 2', code: 'string.tooShort', params: { min: 3, actual: 2 } },
+                    { path: 'body.crewCount', error: "Missing required property 'crewCount'", code: 'object.required', params: { key: 'crewCount' } },
+                    { path: 'params.id', error: "Expected a UUID, but got 'rocinante'", code: 'string.uuid', params: expect.anything() }
+                ]
+            })
+        })
+
+        it('should leave the values out of the errors of union branches', async () => {
+            const res = mockResponse()
+            const engineValidators = {
+                body: objectOf({
+                    engine: oneOfWith({ errors: 'grouped' }, objectOf({ thrust: Rules.isNumber() }), objectOf({ fuel: Rules.isString() }))
+                })
+            }
+
+            await expressValidator(engineValidators)({ ...aValidRequest(), body: { engine: { thrust: 'secret', fuel: 7 } } }, res, jest.fn())
+
+            expect(res.statusCode).toBe(400)
+            expect(res.sent.errors).toHaveLength(1)
+            expect(res.sent.errors[0].branches).toHaveLength(2)
+            expect(JSON.stringify(res.sent)).not.toContain('secret')
+            res.sent.errors[0].branches.forEach((branch: any[]) => branch.forEach(error => {
+                expect(error).not.toHaveProperty('value')
+            }))
+        })
+
+        it('should use the configured status and problem', async () => {
+            const res = mockResponse()
+            const options = {
+                status: 422,
+                problem: (errors: any[], status: number) => ({ type: 'https://example.com/invalid', title: 'Invalid ship', status, count: errors.length })
+            }
+
+            await expressValidator({ body: validators.body }, options)(anInvalidRequest(), res, jest.fn())
+
+            expect(res.statusCode).toBe(422)
+            expect(res.sent).toEqual({ type: 'https://example.com/invalid', title: 'Invalid ship', status: 422, count: 2 })
+        })
+    })
+
+    describe('koaValidator', () => {
+        function mockContext(request: any): KoaContext<typeof validators> {
+            return { request: { body: request.body }, query: request.query, params: request.params, headers: request.headers, state: {}, status: 404, type: '', body: undefined }
+        }
+
+        it('should store the parsed request in the state and call the next middleware', async () => {
+            const ctx = mockContext(aValidRequest())
+            const next = jest.fn(() => Promise.resolve())
+
+            await koaValidator(validators)(ctx, next)
+
+            expect(next).toHaveBeenCalled()
+            expect(ctx.state.validated!.params).toEqual({ id: ID })
+        })
+
+        it('should respond with problem details for invalid requests', async () => {
+            const ctx = mockContext(anInvalidRequest())
+            const next = jest.fn(() => Promise.resolve())
+
+            await koaValidator(validators)(ctx, next)
+
+            expect(next).not.toHaveBeenCalled()
+            expect(ctx.status).toBe(400)
+            expect(ctx.type).toBe('application/problem+json')
+            expect(ctx.body.errors).toHaveLength(3)
+        })
+    })
+
+    describe('fastifyValidator', () => {
+        it('should attach the parsed request, or reply with problem details', async () => {
+            const reply: any = { code: jest.fn(() => reply), header: jest.fn(() => reply), send: jest.fn(() => reply) }
+            const request: FastifyRequest<typeof validators> = aValidRequest()
+
+            await fastifyValidator(validators)(request, reply)
+            expect(request.validated!.body).toEqual({ name: 'Rocinante', crewCount: 4 })
+            expect(reply.send).not.toHaveBeenCalled()
+
+            expect(await fastifyValidator(validators)(anInvalidRequest(), reply)).toBe(reply)
+            expect(reply.code).toHaveBeenCalledWith(400)
+            expect(reply.header).toHaveBeenCalledWith('Content-Type', 'application/problem+json')
+            expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 400 }))
+        })
+    })
+})
@@ -0,0 +1,326 @@
+import {
+    Coerce,
+    Rules,
+    ValidationError,
+    arrayOf,
+    discriminated,
+    fromJsonSchema,
+    mapOf,
+    metadataOf,
+    objectOf,
+    oneOf,
+    optionValidator,
+    recordOf,
+    toJsonSchema,
+    tupleOf,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema'
+
+const engineValidator = objectOf({
+    type: Rules.isOneOf(['fusion', 'ion'] as const),
+    maxAcceleration: validatorFor<number>().withRule(Rules.isNumber()).withRule(Rules.min(0))
+})
+
+const spaceshipValidator = objectOf({
+    name: validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3)),
+    crewCount: validatorFor<number>().withRule(Rules.isInteger()).withRule(Rules.inRange(1, 500)),
+    registry: Rules.isUUID(),
+    engines: arrayOf(engineValidator, { minLength: 1, unique: true }),
+    captain: optionValidator(Rules.isString())
+})
+
+describe('JSON Schema', () => {
+    describe('metadataOf', () => {
+        it('should describe built-in rules and builders', () => {
+            expect(metadataOf(Rules.inRange(1, 10))).toEqual({ kind: 'rule', rule: 'inRange', params: { min: 1, max: 10 } })
+            expect(metadataOf(validatorFor<string>().withRule(Rules.isString()).default('Rocinante'))).toMatchObject({
+                kind: 'builder',
+                rules: [{ kind: 'rule', rule: 'isString' }],
+                default: 'Rocinante',
+                hasDefault: true
+            })
+        })
+
+        it('should describe rules in the order they were declared', () => {
+            const validator = validatorFor<string>().withRule(Rules.isString()).withRule(Rules.minLength(3))
+
+            expect(metadataOf(validator)).toMatchObject({
+                rules: [{ rule: 'isString' }, { rule: 'minLength', params: { min: 3 } }]
+            })
+        })
+
+        it('should describe plain functions as custom', () => {
+            expect(metadataOf((x: any): x is string => typeof x === 'string')).toEqual({ kind: 'custom' })
+        })
+    })
+
+    describe('toJsonSchema', () => {
+        it('should export objects built from rules, collections and combinators', () => {
+            const { schema, unrepresentable } = toJsonSchema(spaceshipValidator)
+
+            expect(unrepresentable).toEqual([])
+            expect(schema).toEqual({
+                $schema: DRAFT_2020_12,
+                type: 'object',
+                properties: {
+                    name: { type: 'string', minLength: 3 },
+                    crewCount: { type: 'integer', minimum: 1, maximum: 500 },
+                    registry: { type: 'string', format: 'uuid' },
+                    engines: {
+                        type: 'array',
+                        minItems: 1,
+                        uniqueItems: true,
+                        items: {
+                            type: 'object',
+                            properties: {
+                                type: { enum: ['fusion', 'ion'] },
+                                maxAcceleration: { type: 'number', minimum: 0 }
+                            },
+                            required: ['type', 'maxAcceleration']
+                        }
+                    },
+                    captain: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+                },
+                required: ['name', 'crewCount', 'registry', 'engines', 'captain']
+            })
+        })
+
+        it('should export tuples, records, unions and strict objects', () => {
+            const validator = objectOf({
+                position: tupleOf(Rules.isNumber(), Rules.isNumber()),
+                cargo: recordOf(Rules.isInteger(), Rules.matches(/^[a-z]+$/)),
+                engine: discriminated('type', {
+                    fusion: objectOf({ maxAcceleration: Rules.isNumber() }),
+                    ion: objectOf({ thrust: Rules.isNumber() })
+                }),
+                callsign: oneOf(Rules.isString(), Rules.isInteger())
+            }).withUnknownKeys('strict')
+
+            const { schema } = toJsonSchema(validator)
+
+            expect(schema).toMatchObject({
+                additionalProperties: false,
+                properties: {
+                    position: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false, minItems: 2 },
+                    cargo: { type: 'object', propertyNames: { type: 'string', pattern: '^[a-z]+$' }, additionalProperties: { type: 'integer' } },
+                    engine: {
+                        type: 'object',
+                        required: ['type'],
+                        oneOf: [
+                            { type: 'object', properties: { maxAcceleration: { type: 'number' }, type: { const: 'fusion' } } },
+                            { type: 'object', properties: { thrust: { type: 'number' }, type: { const: 'ion' } } }
+                        ]
+                    },
+                    callsign: { anyOf: [{ type: 'string' }, { type: 'integer' }] }
+                }
+            })
+        })
+
+        it('should export the unknown key policy of the enclosing object for nested objects without their own', () => {
+            const validator = objectOf({
+                engines: arrayOf(engineValidator),
+                cargo: objectOf({ water: Rules.isInteger() }).withUnknownKeys('passthrough')
+            }).withUnknownKeys('strict')
+
+            const { schema } = toJsonSchema(validator)
+
+            expect(schema).toMatchObject({
+                additionalProperties: false,
+                properties: { engines: { items: { additionalProperties: false } } }
+            })
+            expect(schema).not.toHaveProperty('properties.cargo.additionalProperties')
+        })
+
+        it('should leave properties with defaults out of required', () => {
+            const { schema } = toJsonSchema(objectOf({ crewCount: Coerce.number().default(1) }))
+
+            expect(schema).toMatchObject({ properties: { crewCount: { type: 'number', default: 1 } } })
+            expect(schema).not.toHaveProperty('required')
+        })
+
+        it('should leave optional properties out of required, and allow null for nullable ones', () => {
+            const { schema } = toJsonSchema(objectOf({
+                name: Rules.isString(),
+                callsign: validatorFor<string>().withRule(Rules.isString()).optional(),
+                captain: validatorFor<string>().withRule(Rules.isString()).nullable()
+            }))
+
+            expect(schema).toMatchObject({
+                properties: {
+                    callsign: { type: 'string' },
+                    captain: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+                },
+                required: ['name', 'captain']
+            })
+        })
+
+        it('should move constraints that cannot be combined into allOf', () => {
+            const validator = validatorFor<string>()
+                .withRule(Rules.matches(/^[A-Z]/))
+                .withRule(Rules.matches(/\d$/))
+
+            expect(toJsonSchema(validator).schema).toEqual({
+                $schema: DRAFT_2020_12,
+                type: 'string',
+                pattern: '^[A-Z]',
+                allOf: [{ pattern: '\\d$' }]
+            })
+        })
+
+        it('should report rules it cannot represent rather than dropping them silently', () => {
+            const validator = objectOf({
+                name: validatorFor<string>().withRule(Rules.isString()).withRule((x) => x !== 'Donnager', (x) => 'That name is taken'),
+                launched: Rules.isDate(),
+                crew: mapOf(Rules.isString(), Rules.isString()),
+                commissioned: Rules.isISO8601()
+            }).withAsyncRuleFor('name', () => Promise.resolve(true), () => 'Unavailable')
+
+            const { schema, unrepresentable } = toJsonSchema(validator)
+
+            expect(schema).toMatchObject({ properties: { name: { type: 'string' }, launched: {}, crew: {} } })
+            expect(unrepresentable).toIncludeSameMembers([
+                { pointer: '/properties/name', reason: 'Custom rules cannot be represented in JSON Schema' },
+                { pointer: '/properties/launched', reason: 'Dates have no JSON representation' },
+                { pointer: '/properties/crew', reason: 'Maps have no JSON representation' },
+                { pointer: '/properties/commissioned', reason: 'Checking that ISO-8601 dates exist in the calendar cannot be represented in JSON Schema' },
+                { pointer: '/properties/name', reason: 'Asynchronous rules cannot be represented in JSON Schema' }
+            ])
+        })
+    })
+
+    describe('fromJsonSchema', () => {
+        const schema = {
+            $schema: DRAFT_2020_12,
+            type: 'object',
+            properties: {
+                name: { type: 'string', minLength: 3, pattern: '^[A-Z]' },
+                crewCount: { type: 'integer', minimum: 1, default: 1 },
+                registry: { type: 'string', format: 'uuid' },
+                engines: { type: 'array', minItems: 1, items: { $ref: '#/$defs/engine' } },
+                status: { enum: ['docked', 'underway'] }
+            },
+            required: ['name', 'engines'],
+            additionalProperties: false,
+            $defs: {
+                engine: {
+                    type: 'object',
+                    properties: {
+                        type: { type: 'string' },
+                        maxAcceleration: { type: 'number', exclusiveMinimum: 0 }
+                    },
+                    required: ['type']
+                }
+            }
+        }
+        const validator = fromJsonSchema(schema)
+
+        it('should accept values matching the schema, and fill in defaults when parsing', () => {
+            const input = { name: 'Rocinante', engines: [{ type: 'fusion', maxAcceleration: 12 }] }
+
+            expect(validator(input)).toBe(true)
+            expect(validator.parse(input)).toEqual({ ...input, crewCount: 1 })
+        })
+
+        it('should report failures with paths and codes', () => {
+            const errors: ValidationError[] = []
+            const valid = validator({
+                name: 'ro',
+                crewCount: 0.5,
+                registry: 'not-a-uuid',
+                engines: [{ maxAcceleration: 0 }],
+                status: 'lost',
+                warpCoils: 2
+            }, errors)
+
+            expect(valid).toBe(false)
+            expect(errors.map(({ path, code }) => ({ path, code }))).toIncludeSameMembers([
+                { path: 'name', code: 'string.tooShort' },
+                { path: 'name', code: 'string.pattern' },
+                { path: 'crewCount', code: 'number.integer' },
+                { path: 'crewCount', code: 'number.tooSmall' },
+                { path: 'registry', code: 'string.uuid' },
+                { path: 'engines[0].type', code: 'object.required' },
+                { path: 'engines[0].maxAcceleration', code: 'number.tooSmall' },
+                { path: 'status', code: 'enum.invalid' },
+                { path: 'warpCoils', code: 'object.unknownKey' }
+            ])
+        })
+
+        it('should only apply keywords to values of the type they constrain', () => {
+            const lengthValidator = fromJsonSchema({ minLength: 3, minimum: 5 })
+
+            expect(lengthValidator('abc')).toBe(true)
+            expect(lengthValidator(7)).toBe(true)
+            expect(lengthValidator(true)).toBe(true)
+            expect(lengthValidator('ab')).toBe(false)
+            expect(lengthValidator(4)).toBe(false)
+        })
+
+        it('should support recursive references', () => {
+            const treeValidator = fromJsonSchema({
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    children: { type: 'array', items: { $ref: '#' } }
+                },
+                required: ['name']
+            })
+
+            expect(treeValidator({ name: 'fleet', children: [{ name: 'Rocinante', children: [] }] })).toBe(true)
+            const errors: ValidationError[] = []
+            expect(treeValidator({ name: 'fleet', children: [{ children: [] }] }, errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: 'children[0].name', code: 'object.required' }])
+        })
+
+        it('should treat oneOf as matching exactly one alternative, and anyOf as matching at least one', () => {
+            const exactly = fromJsonSchema({ oneOf: [{ type: 'number' }, { type: 'integer' }] })
+            const atLeast = fromJsonSchema({ anyOf: [{ type: 'number' }, { type: 'integer' }] })
+
+            expect(exactly(1.5)).toBe(true)
+            expect(exactly(2)).toBe(false)
+            expect(atLeast(2)).toBe(true)
+            expect(fromJsonSchema({ allOf: [{ type: 'integer' }, { minimum: 3 }] })(2)).toBe(false)
+        })
+
+        it('should support tuples and unique items', () => {
+            const validator = fromJsonSchema({
+                type: 'array',
+                prefixItems: [{ type: 'string' }],
+                items: { type: 'number' },
+                uniqueItems: true
+            })
+
+            expect(validator(['a', 1, 2])).toBe(true)
+            expect(validator([1, 1])).toBe(false)
+            expect(validator(['a', 1, 1])).toBe(false)
+        })
+
+        it('should compare arrays and objects in enum, const and uniqueItems by their contents', () => {
+            const enumValidator = fromJsonSchema({ enum: [[1, 2], { type: 'fusion', thrust: 12 }, 'ion'] })
+            const constValidator = fromJsonSchema({ const: { position: [1, 2] } })
+            const uniqueValidator = fromJsonSchema({ type: 'array', uniqueItems: true })
+
+            expect(enumValidator([1, 2])).toBe(true)
+            expect(enumValidator({ thrust: 12, type: 'fusion' })).toBe(true)
+            expect(enumValidator('ion')).toBe(true)
+            expect(enumValidator([2, 1])).toBe(false)
+            expect(constValidator({ position: [1, 2] })).toBe(true)
+            expect(constValidator({ position: [1, 2], extra: true })).toBe(false)
+            expect(uniqueValidator([{ a: 1, b: 2 }, { b: 2, a: 1 }])).toBe(false)
+            expect(uniqueValidator([{ a: 1, b: 2 }, { a: 2, b: 1 }])).toBe(true)
+        })
+
+        it('should throw on references it cannot resolve', () => {
+            expect(() => fromJsonSchema({ $ref: '#/$defs/missing' })).toThrow("Could not resolve the reference '#/$defs/missing'")
+            expect(() => fromJsonSchema({ $ref: 'https://example.com/ship.json' })).toThrow()
+        })
+
+        it('should export the schema it was built from', () => {
+            expect(toJsonSchema(validator)).toEqual({ schema, unrepresentable: [] })
+        })
+    })
+})
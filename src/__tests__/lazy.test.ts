@@ -0,0 +1,107 @@
+import {
+    Rules,
+    ValidationError,
+    ValidatorBuilder,
+    arrayOf,
+    lazy,
+    objectFor,
+    objectOf,
+    optionValidator,
+    toJsonSchema
+} from '../index'
+
+import 'jest-extended'
+
+interface Person {
+    name: string
+    children: Person[]
+}
+
+interface Crew {
+    captain: CrewMember
+}
+
+interface CrewMember {
+    name: string
+    crew: Crew | null
+}
+
+const personValidator: ValidatorBuilder<Person> = objectFor<Person>({
+    name: Rules.isString(),
+    children: arrayOf(lazy(() => personValidator, 'Person'))
+})
+
+describe('Lazy validators', () => {
+    it('should validate recursive structures', () => {
+        const family = {
+            name: 'Naomi',
+            children: [{ name: 'Filip', children: [] }]
+        }
+
+        expect(personValidator(family)).toBe(true)
+
+        const errors: ValidationError[] = []
+        expect(personValidator({ name: 'Naomi', children: [{ name: 'Filip', children: [{ name: 7, children: [] }] }] }, errors)).toBe(false)
+        expect(errors).toMatchObject([{ path: 'children[0].children[0].name', code: 'string.type' }])
+    })
+
+    it('should validate mutually recursive types', () => {
+        const crewValidator: ValidatorBuilder<Crew> = objectFor<Crew>({
+            captain: lazy(() => crewMemberValidator)
+        })
+        const crewMemberValidator: ValidatorBuilder<CrewMember> = objectFor<CrewMember>({
+            name: Rules.isString(),
+            crew: optionValidator(crewValidator)
+        })
+
+        expect(crewMemberValidator({ name: 'Holden', crew: { captain: { name: 'Holden', crew: null } } })).toBe(true)
+        expect(crewMemberValidator({ name: 'Holden', crew: { captain: { name: 'Holden', crew: 'Rocinante' } } })).toBe(false)
+    })
+
+    it('should report cycles in the value rather than overflowing the stack', () => {
+        const naomi: any = { name: 'Naomi', children: [] }
+        naomi.children.push({ name: 'Filip', children: [naomi] })
+
+        const errors: ValidationError[] = []
+        expect(personValidator(naomi, errors)).toBe(false)
+        expect(errors).toEqual([{
+            path: 'children[0].children[0].children[0]',
+            error: "Circular reference to the value at 'children[0]'",
+            code: 'object.cycle',
+            params: { ancestorPath: 'children[0]' }
+        }])
+
+        const narcissus: any = { name: 'Narcissus', children: [] }
+        narcissus.children.push(narcissus)
+        expect(lazy(() => personValidator).safeParse(narcissus).errors).toEqual([{
+            path: 'children[0]',
+            error: 'Circular reference to the value itself',
+            code: 'object.cycle',
+            params: { ancestorPath: '' }
+        }])
+    })
+
+    it('should accept the same object appearing twice, as long as it does not contain itself', () => {
+        const filip = { name: 'Filip', children: [] }
+
+        expect(personValidator({ name: 'Naomi', children: [filip, filip] })).toBe(true)
+    })
+
+    it('should export recursive validators to JSON Schema using $defs', () => {
+        const { schema, unrepresentable } = toJsonSchema(objectOf({ root: lazy(() => personValidator, 'Person') }))
+
+        expect(unrepresentable).toEqual([])
+        expect(schema).toMatchObject({
+            properties: { root: { $ref: '#/$defs/Person' } },
+            $defs: {
+                Person: {
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string' },
+                        children: { type: 'array', items: { $ref: '#/$defs/Person' } }
+                    }
+                }
+            }
+        })
+    })
+})
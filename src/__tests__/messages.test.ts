@@ -0,0 +1,133 @@
+import {
+    Rules,
+    ValidationError,
+    arrayOf,
+    createMessageFormatter,
+    localizeErrors,
+    objectOf,
+    oneOfWith,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+const messages = createMessageFormatter({
+    en: {
+        'string.tooShort': 'Must be at least {min} characters',
+        'number.type': (error) => `${error.path} needs to be a number`
+    },
+    fr: {
+        'string.tooShort': 'Doit contenir au moins {min} caractères, pas {actual}'
+    }
+}, { defaultLocale: 'en' })
+
+const spaceshipValidator = objectOf({
+    name: Rules.minLength<string>(3),
+    crewCount: Rules.isNumber()
+})
+
+describe('Structured errors and message catalogs', () => {
+    describe('error codes', () => {
+        it('should attach a code, params and the failing value to errors from built-in rules', () => {
+            const errors: ValidationError[] = []
+            spaceshipValidator({ name: 'R', crewCount: 'four' }, errors)
+
+            expect(errors).toIncludeSameMembers([
+                {
+                    path: 'name',
+                    error: 'Expected a length of at least 3, but got a length of 1',
+                    code: 'string.tooShort',
+                    params: { min: 3, actual: 1 },
+                    value: 'R'
+                },
+                {
+                    path: 'crewCount',
+                    error: 'Expected value of type number, but got type string',
+                    code: 'number.type',
+                    params: { actualType: 'string' },
+                    value: 'four'
+                }
+            ])
+        })
+
+        it('should attach codes to errors from combinators', () => {
+            const errors: ValidationError[] = []
+            arrayOf(Rules.isString(), { maxLength: 1, unique: true })(['a', 'a'], errors, 'names')
+
+            expect(errors.map(error => [error.path, error.code, error.params])).toEqual([
+                ['names', 'array.tooLong', { max: 1, actual: 2 }],
+                ['names[1]', 'array.duplicate', { firstIndex: 0 }]
+            ])
+        })
+
+        it('should keep the messages of custom error message builders', () => {
+            const errors: ValidationError[] = []
+            Rules.isNumber((x) => `${x} is not a crew count`)('four', errors)
+            expect(errors[0].error).toBe('four is not a crew count')
+            expect(errors[0].code).toBe('number.type')
+        })
+
+        it('should only attach a code to custom checks when one is given', () => {
+            const errors: ValidationError[] = []
+            validatorFor<number>((x) => x > 0, (x) => 'Spaceships need a crew!')(0, errors)
+            validatorFor<number>((x) => x > 0, (x) => 'Spaceships need a crew!', 'ship.noCrew', (x) => ({ crewCount: x }))(0, errors)
+
+            expect(errors).toEqual([
+                { path: '', error: 'Spaceships need a crew!' },
+                { path: '', error: 'Spaceships need a crew!', code: 'ship.noCrew', params: { crewCount: 0 }, value: 0 }
+            ])
+        })
+    })
+
+    describe('createMessageFormatter', () => {
+        const tooShort: ValidationError = {
+            path: 'name',
+            error: 'Expected a length of at least 3, but got a length of 1',
+            code: 'string.tooShort',
+            params: { min: 3, actual: 1 },
+            value: 'R'
+        }
+
+        it('should interpolate params into templates', () => {
+            expect(messages(tooShort, 'en')).toBe('Must be at least 3 characters')
+            expect(messages(tooShort, 'fr')).toBe('Doit contenir au moins 3 caractères, pas 1')
+        })
+
+        it('should fall back from regional locales to languages, then to the default locale', () => {
+            expect(messages(tooShort, 'fr-CA')).toBe('Doit contenir au moins 3 caractères, pas 1')
+            expect(messages(tooShort, 'de')).toBe('Must be at least 3 characters')
+            expect(messages(tooShort)).toBe('Must be at least 3 characters')
+        })
+
+        it('should support message functions', () => {
+            expect(messages({ path: 'crewCount', error: '', code: 'number.type' }, 'fr')).toBe('crewCount needs to be a number')
+        })
+
+        it('should keep the original message when there is no message for the code', () => {
+            expect(messages({ path: 'name', error: 'Spaceships need cool names', code: 'ship.name' }, 'en')).toBe('Spaceships need cool names')
+            expect(messages({ path: 'name', error: 'Spaceships need cool names' }, 'en')).toBe('Spaceships need cool names')
+        })
+    })
+
+    describe('resolving messages at validation time', () => {
+        it('should format messages in the requested locale in safeParse', () => {
+            const result = spaceshipValidator.safeParse({ name: 'R', crewCount: 4 }, { messages, locale: 'fr' })
+            expect(result.errors.map(error => error.error)).toEqual(['Doit contenir au moins 3 caractères, pas 1'])
+        })
+
+        it('should format messages in the requested locale in validateAsync', async () => {
+            const result = await spaceshipValidator.validateAsync({ name: 'R', crewCount: 4 }, { messages, locale: 'en-GB' })
+            expect(result.errors.map(error => error.error)).toEqual(['Must be at least 3 characters'])
+        })
+
+        it('should localize the errors of every branch of a union', () => {
+            const errors: ValidationError[] = []
+            oneOfWith({ errors: 'grouped' }, Rules.minLength<string>(3), Rules.isNumber())('R', errors, 'id')
+
+            const localized = localizeErrors(errors, messages, 'fr')
+            expect(localized[0].code).toBe('union.noMatch')
+            expect(localized[0].branches![0][0].error).toBe('Doit contenir au moins 3 caractères, pas 1')
+            expect(errors[0].branches![0][0].error).toBe('Expected a length of at least 3, but got a length of 1')
+        })
+    })
+})
@@ -0,0 +1,429 @@
+import * as vm from 'vm'
+import {
+    Infer,
+    Rules,
+    ValidationError,
+    Validator,
+    arrayOf,
+    deepPartial,
+    describe as describeValidator,
+    discriminated,
+    extend,
+    merge,
+    objectFor,
+    objectOf,
+    omit,
+    partial,
+    pick,
+    toJsonSchema,
+    validatorFor
+} from '../index'
+
+import 'jest-extended'
+
+// Compares errors by path and message only
+const withoutDetails = ({ path, error }: ValidationError) => ({ path, error })
+
+interface SpaceshipEngine {
+    type: string,
+    maxAcceleration: number,
+    safeInAtmosphere: boolean
+}
+
+interface Spaceship {
+    name: string,
+    crewCount: number,
+    engines: SpaceshipEngine
+}
+
+const engineValidator = objectOf({
+    type: Rules.isOneOf(['Fusion Rocket', 'Chemical Rocket'] as const),
+    maxAcceleration: Rules.isNumber(),
+    safeInAtmosphere: Rules.isBoolean()
+})
+
+const spaceshipValidator = objectOf({
+    name: Rules.isString(),
+    crewCount: Rules.isInteger(),
+    engines: engineValidator
+})
+
+function aValidSpaceShip(): Spaceship {
+    return {
+        name: 'Spaceship McAwesome',
+        crewCount: 470,
+        engines: {
+            type: 'Fusion Rocket',
+            maxAcceleration: 90000,
+            safeInAtmosphere: false
+        }
+    }
+}
+
+describe('Schema-style object validators', () => {
+    describe('objectOf', () => {
+        it('should infer the validated type from the shape', () => {
+            const value: any = aValidSpaceShip()
+            if (spaceshipValidator(value)) {
+                const engineType: 'Fusion Rocket' | 'Chemical Rocket' = value.engines.type
+                expect(engineType).toBe('Fusion Rocket')
+            }
+            const ship: Infer<typeof spaceshipValidator> = aValidSpaceShip() as any
+            const asInterface: Spaceship = ship
+            expect(spaceshipValidator(asInterface)).toBe(true)
+        })
+
+        it('should check every property in the shape, with paths', () => {
+            const errors: ValidationError[] = []
+            const ship = {
+                name: 7,
+                crewCount: 4.5,
+                engines: {
+                    type: 'Fusion Rocket',
+                    maxAcceleration: 90000,
+                    safeInAtmosphere: 'sometimes'
+                }
+            }
+
+            expect(spaceshipValidator(ship, errors, 'ship')).toBe(false)
+            expect(errors.map(withoutDetails)).toIncludeSameMembers([
+                { path: 'ship.name', error: 'Expected value of type string, but got type number' },
+                { path: 'ship.crewCount', error: 'Expected an integer, but got 4.5' },
+                { path: 'ship.engines.safeInAtmosphere', error: 'Expected value of type boolean, but got type string' }
+            ])
+        })
+
+        it('should reject values that are not objects without throwing', () => {
+            const errors: ValidationError[] = []
+
+            expect(spaceshipValidator(null, errors, 'ship')).toBe(false)
+            expect(spaceshipValidator([], errors, 'ship')).toBe(false)
+            expect(spaceshipValidator('Rocinante', errors, 'ship')).toBe(false)
+            expect(errors).toMatchObject([
+                { path: 'ship', error: 'Expected an object, but got null' },
+                { path: 'ship', error: 'Expected an object, but got type object' },
+                { path: 'ship', error: 'Expected an object, but got type string' }
+            ])
+        })
+
+        it('should compose with collection validators', () => {
+            const fleetValidator = objectOf({ ships: arrayOf(spaceshipValidator) })
+            const errors: ValidationError[] = []
+            const badShip = { ...aValidSpaceShip(), crewCount: -0.5 }
+
+            expect(fleetValidator({ ships: [aValidSpaceShip(), badShip] }, errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: 'ships[1].crewCount', error: 'Expected an integer, but got -0.5' }])
+        })
+
+        it('should allow further rules to be chained on', () => {
+            const validator = spaceshipValidator
+                .withRule((ship) => ship.crewCount > 0, (ship) => 'Spaceships need a crew!')
+
+            expect(validator(aValidSpaceShip())).toBe(true)
+            expect(validator({ ...aValidSpaceShip(), crewCount: 0 })).toBe(false)
+        })
+    })
+
+    describe('optional properties', () => {
+        it('should infer properties with optional validators as optional', () => {
+            const validator = objectOf({
+                name: Rules.isString(),
+                callsign: validatorFor<string>().withRule(Rules.isString()).optional()
+            })
+            const ship: Infer<typeof validator> = { name: 'Rocinante' }
+
+            expect(validator(ship)).toBe(true)
+            expect(validator({ name: 'Rocinante', callsign: 'Roci' })).toBe(true)
+            expect(validator({ callsign: 'Roci' })).toBe(false)
+        })
+    })
+
+    describe('objectFor', () => {
+        it('should build a validator for an existing interface', () => {
+            const validator: Validator<Spaceship> = objectFor<Spaceship>({
+                name: Rules.isString(),
+                crewCount: Rules.isInteger(),
+                engines: objectFor<SpaceshipEngine>({
+                    type: Rules.isString(),
+                    maxAcceleration: Rules.isNumber(),
+                    safeInAtmosphere: Rules.isBoolean()
+                })
+            })
+
+            expect(validator(aValidSpaceShip())).toBe(true)
+            expect(validator({ ...aValidSpaceShip(), name: null })).toBe(false)
+        })
+    })
+
+    describe('unknown keys', () => {
+        it('should reject unknown properties at any depth when each level is strict', () => {
+            const validator = objectOf({
+                name: Rules.isString(),
+                engines: arrayOf(engineValidator.withUnknownKeys('strict'))
+            }).withUnknownKeys('strict')
+            const errors: ValidationError[] = []
+            const ship = {
+                name: 'Rocinante',
+                captain: 'Holden',
+                engines: [{ ...aValidSpaceShip().engines, warpCoils: 2 }]
+            }
+
+            expect(validator(ship, errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toIncludeSameMembers([
+                { path: 'captain', error: "Unexpected property 'captain'" },
+                { path: 'engines[0].warpCoils', error: "Unexpected property 'warpCoils'" }
+            ])
+        })
+
+        it('should report unknown properties of nested objects which don\'t set a policy', () => {
+            const validator = objectOf({
+                name: Rules.isString(),
+                engines: arrayOf(engineValidator)
+            }).withUnknownKeys('strict')
+            const ship = {
+                name: 'Rocinante',
+                captain: 'Holden',
+                engines: [{ ...aValidSpaceShip().engines, warpCoils: 2 }]
+            }
+
+            const result = validator.safeParse(ship)
+
+            expect(result.valid).toBe(false)
+            expect(result.errors.map(withoutDetails)).toIncludeSameMembers([
+                { path: 'captain', error: "Unexpected property 'captain'" },
+                { path: 'engines[0].warpCoils', error: "Unexpected property 'warpCoils'" }
+            ])
+            expect(validator({ name: ship.name, engines: ship.engines })).toBe(false)
+        })
+
+        it('should let nested objects set a policy of their own', () => {
+            const validator = objectOf({
+                name: Rules.isString(),
+                engines: engineValidator.withUnknownKeys('passthrough')
+            }).withUnknownKeys('strict')
+            const ship = { name: 'Rocinante', engines: { ...aValidSpaceShip().engines, warpCoils: 2 } }
+
+            expect(validator.safeParse(ship).valid).toBe(true)
+            expect(validator({ ...ship, captain: 'Holden' })).toBe(false)
+        })
+
+        it('should apply the policy to nested objects checked by asynchronous rules', async () => {
+            const validator = validatorFor<{ name: string, captain: { name: string } }>()
+                .withRuleFor('name', Rules.isString())
+                .withAsyncRuleFor('captain', objectOf({ name: Rules.isString() }))
+                .withUnknownKeys('strict')
+
+            const result = await validator.validateAsync({ name: 'Rocinante', captain: { name: 'Holden', rank: 'Captain' } })
+
+            expect(result.valid).toBe(false)
+            expect(result.errors.map(withoutDetails)).toEqual([
+                { path: 'captain.rank', error: "Unexpected property 'rank'" }
+            ])
+        })
+
+        it('should leave the branches of discriminated unions to their own policy, as they don\'t declare the key', () => {
+            const validator = objectOf({
+                engine: discriminated('type', {
+                    fusion: objectOf({ maxAcceleration: Rules.isNumber() }),
+                    chemical: objectOf({ fuel: Rules.isString() }).withUnknownKeys('strict')
+                })
+            }).withUnknownKeys('strict')
+
+            expect(validator({ engine: { type: 'fusion', maxAcceleration: 12 } })).toBe(true)
+            expect(validator({ engine: { type: 'chemical', fuel: 'hydrazine' } })).toBe(false)
+        })
+
+        it('should strip unknown properties through collections', () => {
+            const validator = objectOf({
+                name: Rules.isString(),
+                engines: arrayOf(engineValidator.withUnknownKeys('strip'))
+            }).withUnknownKeys('strip')
+
+            const result = validator.safeParse({
+                name: 'Rocinante',
+                captain: 'Holden',
+                engines: [{ ...aValidSpaceShip().engines, warpCoils: 2 }]
+            })
+
+            expect(result.valid && result.value).toEqual({
+                name: 'Rocinante',
+                engines: [aValidSpaceShip().engines]
+            })
+        })
+    })
+
+    describe('deriving validators', () => {
+        const namedValidator = validatorFor<string>()
+            .withRule(Rules.isString())
+            .withRule(Rules.minLength(3))
+        const registeredValidator = objectOf({
+            name: namedValidator,
+            crewCount: validatorFor<number>().withRule(Rules.isInteger()).default(1),
+            engines: engineValidator
+        })
+            .withRule((ship) => ship.crewCount > 0, () => 'Ships need a crew')
+            .withAsyncRuleFor('name', () => Promise.resolve(true), () => 'That name is taken')
+
+        it('should make every property optional with partial, keeping their rules', async () => {
+            const errors: ValidationError[] = []
+            const patchValidator = partial(registeredValidator)
+            const patch: Partial<Spaceship> = { name: 'Rocinante' }
+
+            expect(await patchValidator.validateAsync(patch)).toMatchObject({ valid: true })
+            expect(patchValidator({})).toBe(true)
+            expect(patchValidator({ name: 'Ro', engines: {} }, errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([
+                { path: 'name', error: 'Expected a length of at least 3, but got a length of 2' },
+                { path: 'engines.type', error: "Missing required property 'type'" },
+                { path: 'engines.maxAcceleration', error: "Missing required property 'maxAcceleration'" },
+                { path: 'engines.safeInAtmosphere', error: "Missing required property 'safeInAtmosphere'" }
+            ])
+            expect(patchValidator('Rocinante')).toBe(false)
+        })
+
+        it('should not fill in defaults or run rules for the whole object with partial', async () => {
+            const patchValidator = partial(registeredValidator)
+
+            expect(await patchValidator.validateAsync({ name: 'Rocinante' })).toEqual({ valid: true, value: { name: 'Rocinante' }, errors: [] })
+            expect(patchValidator({ crewCount: 0 })).toBe(true)
+            expect(await patchValidator.validateAsync({ engines: aValidSpaceShip().engines })).toMatchObject({ valid: true })
+        })
+
+        it('should keep the descriptions of built-in rules with partial and deepPartial', () => {
+            const shipValidator = objectOf({ name: Rules.isString(), engines: objectOf({ type: Rules.isString() }) })
+
+            expect(describeValidator(partial(shipValidator))).toBe([
+                'object',
+                '    name (optional): string',
+                '    engines (optional): object',
+                '        type: string'
+            ].join('\n'))
+            expect(describeValidator(deepPartial(shipValidator))).toContain('        type (optional): string')
+            expect(toJsonSchema(deepPartial(shipValidator))).toEqual({
+                schema: {
+                    $schema: 'https://json-schema.org/draft/2020-12/schema',
+                    type: 'object',
+                    properties: { name: { type: 'string' }, engines: { type: 'object', properties: { type: { type: 'string' } } } }
+                },
+                unrepresentable: []
+            })
+        })
+
+        it('should make nested properties optional with deepPartial', () => {
+            const errors: ValidationError[] = []
+            const patchValidator = deepPartial(spaceshipValidator)
+            const patch: { engines?: { maxAcceleration?: number } } = { engines: { maxAcceleration: 3 } }
+
+            expect(patchValidator(patch)).toBe(true)
+            expect(patchValidator({ engines: { type: 'Warp Drive' } }, errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([
+                { path: 'engines.type', error: "Expected one of 'Fusion Rocket', 'Chemical Rocket', but got 'Warp Drive'" }
+            ])
+        })
+
+        it('should keep or leave out properties with pick and omit', () => {
+            const nameValidator = pick(spaceshipValidator, ['name'])
+            const summaryValidator = omit(spaceshipValidator, ['engines'])
+            const named: { name: string } = { name: 'Rocinante' }
+            const summary: { name: string, crewCount: number } = { name: 'Rocinante', crewCount: 4 }
+
+            expect(nameValidator(named)).toBe(true)
+            expect(nameValidator({ name: 7 })).toBe(false)
+            expect(nameValidator(42)).toBe(false)
+            expect(summaryValidator(summary)).toBe(true)
+            expect(summaryValidator({ name: 'Rocinante' })).toBe(false)
+        })
+
+        it('should keep withRuleAt rules whose properties are still checked', () => {
+            const crewedValidator = spaceshipValidator
+                .withRuleAt('crewCount', (ship) => ship.crewCount > 0, () => 'Ships need a crew')
+                .withRuleAt('engines.safeInAtmosphere', (ship) => ship.engines.safeInAtmosphere || ship.crewCount < 10, () => 'Large crews need safe engines')
+            const uncrewed = { ...aValidSpaceShip(), crewCount: 0 }
+            const errors: ValidationError[] = []
+
+            expect(pick(crewedValidator, ['name', 'crewCount'])({ name: 'Rocinante', crewCount: 0 }, errors)).toBe(false)
+            expect(omit(crewedValidator, ['engines'])({ name: 'Rocinante', crewCount: 0 })).toBe(false)
+            expect(omit(crewedValidator, ['engines'])({ name: 'Rocinante', crewCount: 40 })).toBe(true)
+            expect(pick(crewedValidator, ['name'])({ name: 'Rocinante' })).toBe(true)
+            expect(partial(crewedValidator)(uncrewed)).toBe(false)
+            expect(partial(crewedValidator)({ name: 'Rocinante' })).toBe(true)
+            expect(partial(crewedValidator)({ crewCount: 40 })).toBe(true)
+            expect(errors.map(withoutDetails)).toEqual([{ path: 'crewCount', error: 'Ships need a crew' }])
+        })
+
+        it('should keep the unknown key policy with pick', () => {
+            const strictValidator = pick(spaceshipValidator.withUnknownKeys('strict'), ['name', 'crewCount'])
+            const errors: ValidationError[] = []
+
+            expect(strictValidator({ ...aValidSpaceShip() }, errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([{ path: 'engines', error: "Unexpected property 'engines'" }])
+        })
+
+        it('should add and replace properties with extend', () => {
+            const errors: ValidationError[] = []
+            const warshipValidator = extend(spaceshipValidator, {
+                crewCount: validatorFor<number>().withRule(Rules.isInteger()).withRule(Rules.min(10)),
+                armament: arrayOf(Rules.isString())
+            })
+            const warship: Spaceship & { armament: string[] } = { ...aValidSpaceShip(), armament: ['railgun'] }
+
+            expect(warshipValidator(warship)).toBe(true)
+            expect(warshipValidator({ ...warship, crewCount: 4, armament: undefined }, errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([
+                { path: 'crewCount', error: 'Expected a number of at least 10, but got 4' },
+                { path: 'armament', error: 'Expected an array, but got type undefined' }
+            ])
+        })
+
+        it('should combine the properties of two validators with merge', () => {
+            const errors: ValidationError[] = []
+            const registryValidator = objectOf({ registry: Rules.isUUID(), name: namedValidator }).withUnknownKeys('strict')
+            const registeredShipValidator = merge(spaceshipValidator, registryValidator)
+            const ship: Spaceship & { registry: string } = { ...aValidSpaceShip(), registry: '3b241101-e2bb-4255-8caf-4136c566a962' }
+
+            expect(registeredShipValidator(ship)).toBe(true)
+            expect(registeredShipValidator({ ...ship, name: 'Ro', hull: 'steel' }, errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([
+                { path: 'name', error: 'Expected a length of at least 3, but got a length of 2' },
+                { path: 'hull', error: "Unexpected property 'hull'" }
+            ])
+            errors.length = 0
+            expect(registeredShipValidator(null, errors)).toBe(false)
+            expect(errors).toHaveLength(1)
+        })
+
+        it('should replace properties named like properties of Object.prototype with extend', () => {
+            const validator = extend(validatorFor<any>().withRuleFor('constructor', Rules.isString()), { constructor: Rules.isNumber() })
+
+            expect(validator({ constructor: 7 })).toBe(true)
+            expect(validator({ constructor: 'Tachi' })).toBe(false)
+        })
+
+        it('should only check that the value is an object once when merging', () => {
+            const errors: ValidationError[] = []
+            const merged = merge(objectOf({ name: Rules.isString() }), objectOf({ registry: Rules.isUUID() }))
+
+            expect(merged(['Rocinante'], errors)).toBe(false)
+            expect(errors.map(withoutDetails)).toEqual([{ path: '', error: 'Expected an object, but got type object' }])
+        })
+
+        it('should only derive from validators built with objectOf or validatorFor', () => {
+            const isShip = (x: any): x is Spaceship => typeof x === 'object'
+
+            expect(() => partial(isShip as any)).toThrow('partial needs a validator built with objectOf or validatorFor')
+        })
+    })
+
+    describe('objects from other realms', () => {
+        it('should validate objects and arrays created in another realm like local ones', () => {
+            const errors: ValidationError[] = []
+            const validator = objectOf({ name: Rules.isString(), engines: arrayOf(objectOf({ type: Rules.isString() })) })
+            const foreignShip = vm.runInNewContext("({ name: 'Rocinante', engines: [{ type: 'fusion' }] })")
+            const foreignArray = vm.runInNewContext("[{ name: 'Rocinante' }]")
+
+            expect(validator(foreignShip)).toBe(true)
+            expect(validator(foreignArray, errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: '', code: 'object.type' }])
+        })
+    })
+})
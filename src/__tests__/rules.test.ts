@@ -1,4 +1,7 @@
+import * as vm from 'vm'
 import * as Rules from '../rules'
+import { ValidationError } from '../models'
+import { validatorFor } from '../validatorfor'
 
 describe('Built-in validation rules', () => {
     describe('isString', () => {
@@ -7,4 +10,306 @@ describe('Built-in validation rules', () => {
             expect(Rules.isString()('hello')).toBe(true)
         })
     })
-})
\ No newline at end of file
+
+    describe('isNumber', () => {
+        it('should check if a value is a number', () => {
+            expect(Rules.isNumber()(470)).toBe(true)
+            expect(Rules.isNumber()('470')).toBe(false)
+        })
+
+        it('should not treat NaN as a number', () => {
+            const errors: ValidationError[] = []
+            expect(Rules.isNumber()(NaN, errors, 'crewCount')).toBe(false)
+            expect(errors).toMatchObject([{ path: 'crewCount', error: 'Expected a number, but got NaN' }])
+        })
+    })
+
+    describe('isBoolean', () => {
+        it('should check if a value is a boolean', () => {
+            expect(Rules.isBoolean()(false)).toBe(true)
+            expect(Rules.isBoolean()('false')).toBe(false)
+        })
+    })
+
+    describe('isInteger', () => {
+        it('should only accept whole, finite numbers', () => {
+            expect(Rules.isInteger()(470)).toBe(true)
+            expect(Rules.isInteger()(4.7)).toBe(false)
+            expect(Rules.isInteger()(Infinity)).toBe(false)
+            expect(Rules.isInteger()('470')).toBe(false)
+        })
+    })
+
+    describe('isDate', () => {
+        it('should only accept valid Date instances', () => {
+            expect(Rules.isDate()(new Date())).toBe(true)
+            expect(Rules.isDate()(new Date('the heat death of the universe'))).toBe(false)
+            expect(Rules.isDate()('2020-11-05')).toBe(false)
+        })
+
+        it('should accept Dates from other realms', () => {
+            const foreignDate = vm.runInNewContext('new Date(0)')
+            expect(foreignDate instanceof Date).toBe(false)
+            expect(Rules.isDate()(foreignDate)).toBe(true)
+            expect(Rules.isDate()({ getTime: () => 0 })).toBe(false)
+        })
+    })
+
+    describe('date ranges', () => {
+        const launchWindow = [new Date('2350-01-01T00:00:00Z'), new Date('2350-12-31T00:00:00Z')]
+
+        it('should check that dates are within a range', () => {
+            expect(Rules.minDate(launchWindow[0])(new Date('2350-06-01'))).toBe(true)
+            expect(Rules.minDate(launchWindow[0])(launchWindow[0])).toBe(true)
+            expect(Rules.minDate(launchWindow[0])(new Date('2349-06-01'))).toBe(false)
+            expect(Rules.maxDate(launchWindow[1])(new Date('2350-06-01'))).toBe(true)
+            expect(Rules.maxDate(launchWindow[1])(new Date('2351-06-01'))).toBe(false)
+        })
+
+        it('should reject invalid dates and other values', () => {
+            expect(Rules.minDate(launchWindow[0])(new Date('never'))).toBe(false)
+            expect(Rules.maxDate(launchWindow[1])('2350-06-01')).toBe(false)
+        })
+
+        it('should report the limit with the error', () => {
+            const errors: ValidationError[] = []
+            Rules.minDate(launchWindow[0])(new Date('2349-06-01T00:00:00Z'), errors, 'launched')
+            Rules.maxDate(launchWindow[1])(new Date('never'), errors, 'landed')
+            expect(errors).toMatchObject([
+                {
+                    path: 'launched',
+                    error: 'Expected a date no earlier than 2350-01-01T00:00:00.000Z, but got 2349-06-01T00:00:00.000Z',
+                    code: 'date.tooEarly',
+                    params: { min: '2350-01-01T00:00:00.000Z' }
+                },
+                {
+                    path: 'landed',
+                    error: 'Expected a date no later than 2350-12-31T00:00:00.000Z, but got an invalid Date',
+                    code: 'date.tooLate',
+                    params: { max: '2350-12-31T00:00:00.000Z' }
+                }
+            ])
+        })
+    })
+
+    describe('binary data', () => {
+        it('should accept buffers, typed arrays and their views', () => {
+            expect(Rules.isBinary()(new ArrayBuffer(4))).toBe(true)
+            expect(Rules.isBinary()(new Uint8Array(4))).toBe(true)
+            expect(Rules.isBinary()(Buffer.from('hello'))).toBe(true)
+            expect(Rules.isBinary()(new DataView(new ArrayBuffer(4)))).toBe(true)
+            expect(Rules.isBinary()(vm.runInNewContext('new Uint8Array(4)'))).toBe(true)
+            expect(Rules.isBinary()([1, 2, 3])).toBe(false)
+            expect(Rules.isBinary()({ [Symbol.toStringTag]: 'ArrayBuffer', byteLength: 4 })).toBe(false)
+            expect(Rules.isBinary()('hello')).toBe(false)
+        })
+
+        it('should check lengths in bytes', () => {
+            const errors: ValidationError[] = []
+            expect(Rules.minByteLength(4)(new Uint16Array(2))).toBe(true)
+            expect(Rules.maxByteLength(4)(new Uint16Array(3), errors, 'signature')).toBe(false)
+            expect(Rules.minByteLength(4)('four', errors, 'key')).toBe(false)
+            expect(errors).toEqual([
+                {
+                    path: 'signature',
+                    error: 'Expected at most 4 bytes, but got 6',
+                    code: 'binary.tooLong',
+                    params: { max: 4, actual: 6 },
+                    value: new Uint16Array(3)
+                },
+                {
+                    path: 'key',
+                    error: "Expected binary data, but got 'four'",
+                    code: 'binary.type',
+                    params: { min: 4, actual: undefined },
+                    value: 'four'
+                }
+            ])
+        })
+    })
+
+    describe('regular expressions and promises', () => {
+        it('should accept RegExps and Promises, including those from other realms', () => {
+            expect(Rules.isRegExp()(/^NCC-\d+$/)).toBe(true)
+            expect(Rules.isRegExp()(vm.runInNewContext('/^NCC-\\d+$/'))).toBe(true)
+            expect(Rules.isRegExp()('^NCC-\\d+$')).toBe(false)
+            expect(Rules.isPromise()(Promise.resolve('Rocinante'))).toBe(true)
+            expect(Rules.isPromise()(vm.runInNewContext('Promise.resolve("Rocinante")'))).toBe(true)
+            expect(Rules.isPromise()({ then: () => undefined })).toBe(false)
+            expect(Rules.isPromise()(null)).toBe(false)
+        })
+
+        it('should reject objects posing as RegExps and Promises', () => {
+            expect(Rules.isRegExp()({ [Symbol.toStringTag]: 'RegExp', source: '^NCC$' })).toBe(false)
+            expect(Rules.isRegExp()(RegExp.prototype)).toBe(false)
+            expect(Rules.isPromise()({ [Symbol.toStringTag]: 'Promise', then: () => undefined })).toBe(false)
+        })
+
+        it('should report what was found instead', () => {
+            const errors: ValidationError[] = []
+            Rules.isRegExp()('^NCC$', errors, 'pattern')
+            Rules.isPromise()({ then: () => undefined }, errors, 'launch')
+            expect(errors).toEqual([
+                { path: 'pattern', error: 'Expected a RegExp, but got type string', code: 'regexp.type', params: { actualType: 'string' }, value: '^NCC$' },
+                { path: 'launch', error: 'Expected a Promise, but got a plain object', code: 'promise.type', params: { actualType: 'object' }, value: expect.anything() }
+            ])
+        })
+    })
+
+    describe('instanceOf', () => {
+        class Spaceship {
+            constructor(readonly name: string) {}
+
+            get displayName(): string {
+                return `The ${this.name}`
+            }
+        }
+        class Shuttle extends Spaceship {}
+
+        it('should check that values are instances of a class, including subclasses', () => {
+            expect(Rules.instanceOf(Spaceship)(new Spaceship('Rocinante'))).toBe(true)
+            expect(Rules.instanceOf(Spaceship)(new Shuttle('Razorback'))).toBe(true)
+            expect(Rules.instanceOf(Spaceship)({ name: 'Rocinante' })).toBe(false)
+            expect(Rules.instanceOf(Map)(new Map())).toBe(true)
+        })
+
+        it('should narrow to the instance type', () => {
+            const value: any = new Spaceship('Rocinante')
+            if (Rules.instanceOf(Spaceship)(value)) {
+                expect(value.displayName).toBe('The Rocinante')
+            }
+        })
+
+        it('should say what the value was an instance of', () => {
+            const errors: ValidationError[] = []
+            Rules.instanceOf(Shuttle)(new Spaceship('Rocinante'), errors, 'ship')
+            Rules.instanceOf(Shuttle)({}, errors, 'shuttle')
+            Rules.instanceOf(Shuttle)(null, errors, 'tender')
+            expect(errors.map(error => error.error)).toEqual([
+                'Expected an instance of Shuttle, but got an instance of Spaceship',
+                'Expected an instance of Shuttle, but got a plain object',
+                'Expected an instance of Shuttle, but got null'
+            ])
+            expect(errors[0]).toMatchObject({ code: 'object.instanceOf', params: { className: 'Shuttle' } })
+        })
+
+        it('should check the fields and getters of instances', () => {
+            const errors: ValidationError[] = []
+            const spaceshipValidator = Rules.instanceOf(Spaceship)
+                .withRuleFor('name', Rules.minLength(3))
+                .withRuleFor('displayName', Rules.maxLength(12))
+
+            expect(spaceshipValidator(new Spaceship('Tachi'))).toBe(true)
+            expect(spaceshipValidator(new Spaceship('Rocinante'), errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: 'displayName', code: 'string.tooLong' }])
+        })
+
+        it('should parse instances into instances of the same class', () => {
+            const spaceshipValidator = Rules.instanceOf(Spaceship)
+                .withRuleFor('name', validatorFor<string>().withRule(Rules.isString()).transform(name => name.toUpperCase()))
+            const ship = Object.assign(new Spaceship('Rocinante'), { registry: 'MCRN' })
+
+            const parsed = spaceshipValidator.parse(ship)
+            const stripped = spaceshipValidator.withUnknownKeys('strip').parse(ship)
+
+            expect(parsed).toBeInstanceOf(Spaceship)
+            expect(parsed).toMatchObject({ name: 'ROCINANTE', displayName: 'The ROCINANTE', registry: 'MCRN' })
+            expect(stripped).toBeInstanceOf(Spaceship)
+            expect(stripped.displayName).toBe('The ROCINANTE')
+            expect(stripped).not.toHaveProperty('registry')
+            expect(ship.name).toBe('Rocinante')
+        })
+    })
+
+    describe('string formats', () => {
+        it('should check email addresses', () => {
+            expect(Rules.isEmail()('captain@spaceship.io')).toBe(true)
+            expect(Rules.isEmail()('captain at spaceship')).toBe(false)
+        })
+
+        it('should check UUIDs', () => {
+            expect(Rules.isUUID()('3b241101-e2bb-4255-8caf-4136c566a962')).toBe(true)
+            expect(Rules.isUUID()('3b241101-e2bb-4255-8caf')).toBe(false)
+        })
+
+        it('should check URLs', () => {
+            expect(Rules.isURL()('https://example.com/ships?name=rocinante')).toBe(true)
+            expect(Rules.isURL()('example.com')).toBe(false)
+        })
+
+        it('should check ISO-8601 dates', () => {
+            expect(Rules.isISO8601()('2020-11-05')).toBe(true)
+            expect(Rules.isISO8601()('2020-11-05T13:45:00.000Z')).toBe(true)
+            expect(Rules.isISO8601()('2020-13-45')).toBe(false)
+            expect(Rules.isISO8601()('2020-02-30')).toBe(false)
+            expect(Rules.isISO8601()('2021-04-31T10:00:00Z')).toBe(false)
+            expect(Rules.isISO8601()('2020-00-10')).toBe(false)
+            expect(Rules.isISO8601()('2020-11-00')).toBe(false)
+        })
+
+        it('should only accept February 29th in leap years', () => {
+            expect(Rules.isISO8601()('2020-02-29')).toBe(true)
+            expect(Rules.isISO8601()('2000-02-29')).toBe(true)
+            expect(Rules.isISO8601()('2021-02-29')).toBe(false)
+            expect(Rules.isISO8601()('1900-02-29')).toBe(false)
+            expect(Rules.isISO8601()('November 5th')).toBe(false)
+        })
+
+        it('should check arbitrary patterns, even stateful global ones', () => {
+            const isShipCode = Rules.matches(/^[A-Z]{3}-\d+$/g)
+            expect(isShipCode('NCC-1701')).toBe(true)
+            expect(isShipCode('NCC-1701')).toBe(true)
+            expect(isShipCode('ncc-1701')).toBe(false)
+            expect(isShipCode(1701)).toBe(false)
+        })
+    })
+
+    describe('lengths and ranges', () => {
+        it('should check minimum and maximum lengths of strings and arrays', () => {
+            expect(Rules.minLength(3)('abc')).toBe(true)
+            expect(Rules.minLength(3)([1, 2])).toBe(false)
+            expect(Rules.maxLength(3)([1, 2])).toBe(true)
+            expect(Rules.maxLength(3)('abcd')).toBe(false)
+            expect(Rules.maxLength(3)(null)).toBe(false)
+        })
+
+        it('should check numeric ranges', () => {
+            expect(Rules.min(0)(0)).toBe(true)
+            expect(Rules.min(0)(-1)).toBe(false)
+            expect(Rules.max(10)(10)).toBe(true)
+            expect(Rules.max(10)(11)).toBe(false)
+            expect(Rules.inRange(1, 10)(5)).toBe(true)
+            expect(Rules.inRange(1, 10)(0)).toBe(false)
+        })
+
+        it('should describe the expected bounds in the default error message', () => {
+            const errors: ValidationError[] = []
+            Rules.minLength(3)('ab', errors, 'name')
+            Rules.inRange(1, 10)(11, errors, 'crewCount')
+            expect(errors).toMatchObject([
+                { path: 'name', error: 'Expected a length of at least 3, but got a length of 2' },
+                { path: 'crewCount', error: 'Expected a number between 1 and 10, but got 11' }
+            ])
+        })
+    })
+
+    describe('isOneOf', () => {
+        it('should check membership and narrow to a literal union', () => {
+            const isEngineType = Rules.isOneOf(['fusion', 'ion'] as const)
+            const value: any = 'fusion'
+            if (isEngineType(value)) {
+                const engineType: 'fusion' | 'ion' = value
+                expect(engineType).toBe('fusion')
+            }
+            expect(isEngineType('chemical')).toBe(false)
+        })
+    })
+
+    describe('custom error messages', () => {
+        it('should use a custom error message builder when one is passed in', () => {
+            const errors: ValidationError[] = []
+            Rules.isInteger((x) => `${x} crew members is not a whole crew`)(2.5, errors, 'crewCount')
+            expect(errors).toMatchObject([{ path: 'crewCount', error: '2.5 crew members is not a whole crew' }])
+        })
+    })
+})
@@ -1,6 +1,11 @@
 import {
+    Brand,
+    Rules,
     Validator,
     ValidationError,
+    ValidationException,
+    arrayOf,
+    objectOf,
     validatorFor
 } from '../index'
 
@@ -103,7 +108,7 @@ describe('The fluent validator builder API', () => {
             expect(validator({ crewCount: 137 })).toBe(false)
         })
 
-        it('should accumulate errors in an error collector if one is passed in', () => {
+        it('should accumulate errors in an error collector in the order rules were declared', () => {
             const validator = validatorFor<Spaceship>()
                 .withRule((ship) => ship.crewCount > 0, (ship) => 'Spaceships need a crew!')
                 .withRule((ship) => ship.name && ship.name.length > 0, (ship) => 'Spaceships need cool names!')
@@ -112,8 +117,8 @@ describe('The fluent validator builder API', () => {
             validator({}, errorCollector)
 
             expect(errorCollector).toEqual([
-                { error: 'Spaceships need cool names!', path: "" },
-                { error: 'Spaceships need a crew!', path: "" }
+                { error: 'Spaceships need a crew!', path: "" },
+                { error: 'Spaceships need cool names!', path: "" }
             ])
         })
 
@@ -139,8 +144,8 @@ describe('The fluent validator builder API', () => {
             validator({}, errorCollector, "spaceship")
 
             expect(errorCollector).toEqual([
-                { error: 'Spaceships need cool names!', path: "spaceship" },
-                { error: 'Spaceships need a crew!', path: "spaceship" }
+                { error: 'Spaceships need a crew!', path: "spaceship" },
+                { error: 'Spaceships need cool names!', path: "spaceship" }
             ])
         })
     })
@@ -303,4 +308,422 @@ describe('The fluent validator builder API', () => {
             ])
         })
     })
-})
\ No newline at end of file
+
+    describe('withInheritedProperties', () => {
+        class Hull {
+            constructor(readonly massInTons: number, readonly lengthInMeters: number) {}
+
+            get density(): number {
+                return this.massInTons / this.lengthInMeters
+            }
+        }
+        const hullValidator = validatorFor<Hull>()
+            .withRuleFor('density', (density) => density < 1000, (density) => `${density} is too dense`)
+
+        it('should only read own properties by default', () => {
+            const errors: ValidationError[] = []
+
+            expect(hullValidator(new Hull(1000, 10), errors)).toBe(false)
+            expect(errors).toMatchObject([{ path: 'density', code: 'object.required' }])
+        })
+
+        it('should read properties through the prototype chain', () => {
+            const errors: ValidationError[] = []
+            const inheritedValidator = hullValidator.withInheritedProperties()
+
+            expect(inheritedValidator(new Hull(1000, 10))).toBe(true)
+            expect(inheritedValidator(new Hull(100000, 10), errors)).toBe(false)
+            expect(errors).toEqual([{ path: 'density', error: '10000 is too dense' }])
+        })
+    })
+
+    describe('withUnknownKeys', () => {
+        const engineValidator = validatorFor<SpaceshipEngine>()
+            .withRuleFor('type', (engineType) => typeof engineType === 'string', (engineType) => 'Engines need a type')
+
+        it('should ignore unknown properties by default', () => {
+            const validator = validatorFor<Spaceship>()
+                .withRuleFor('name', (name) => typeof name === 'string', (name) => 'Spaceships need names')
+            const errorCollector: ValidationError[] = []
+
+            expect(validator({ name: 'Rocinante', registry: 'MCRN' }, errorCollector)).toBe(true)
+            expect(errorCollector).toEqual([])
+        })
+
+        it('should report each unknown property at its path in strict mode', () => {
+            const validator = validatorFor<Spaceship>()
+                .withRuleFor('name', (name) => typeof name === 'string', (name) => 'Spaceships need names')
+                .withRuleFor('engines', engineValidator.withUnknownKeys('strict'))
+                .withUnknownKeys('strict')
+            const errorCollector: ValidationError[] = []
+
+            const isValid = validator({
+                name: 'Rocinante',
+                registry: 'MCRN',
+                engines: { type: 'Fusion Rocket', warpCoils: 2 }
+            }, errorCollector, 'spaceship')
+
+            expect(isValid).toBe(false)
+            expect(errorCollector.map(({ error, path }) => ({ error, path }))).toIncludeSameMembers([
+                { error: "Unexpected property 'registry'", path: 'spaceship.registry' },
+                { error: "Unexpected property 'warpCoils'", path: 'spaceship.engines.warpCoils' }
+            ])
+        })
+
+        it('should take into account rules declared after the policy', () => {
+            const validator = validatorFor<Spaceship>()
+                .withUnknownKeys('strict')
+                .withRuleFor('name', (name) => typeof name === 'string', (name) => 'Spaceships need names')
+
+            expect(validator({ name: 'Rocinante' })).toBe(true)
+        })
+
+        it('should return a copy without unknown properties from safeParse in strip mode', () => {
+            const validator = validatorFor<Spaceship>()
+                .withRuleFor('name', (name) => typeof name === 'string', (name) => 'Spaceships need names')
+                .withRuleFor('engines', engineValidator.withUnknownKeys('strip'))
+                .withUnknownKeys('strip')
+            const input = {
+                name: 'Rocinante',
+                registry: 'MCRN',
+                engines: { type: 'Fusion Rocket', warpCoils: 2 }
+            }
+
+            const result = validator.safeParse(input)
+
+            expect(result).toEqual({
+                valid: true,
+                value: { name: 'Rocinante', engines: { type: 'Fusion Rocket' } },
+                errors: []
+            })
+            expect(input.registry).toBe('MCRN')
+            expect(input.engines.warpCoils).toBe(2)
+        })
+
+        it('should report errors from safeParse when the value is invalid', () => {
+            const validator = validatorFor<Spaceship>()
+                .withRuleFor('name', (name) => typeof name === 'string', (name) => 'Spaceships need names')
+                .withUnknownKeys('strip')
+
+            expect(validator.safeParse({ name: 7, registry: 'MCRN' })).toEqual({
+                valid: false,
+                errors: [{ error: 'Spaceships need names', path: 'name' }]
+            })
+        })
+    })
+
+    describe('withRuleAt', () => {
+        const engineValidator = validatorFor<SpaceshipEngine>()
+            .withRuleAt(
+                'maxAcceleration',
+                (x) => !x.safeInAtmosphere || x.maxAcceleration < 1000,
+                (x) => `Engines that are safe in atmosphere must accelerate at less than 1000, not ${x.maxAcceleration}`
+            )
+
+        it('should report errors from whole object rules at the chosen path', () => {
+            const errors: ValidationError[] = []
+            const valid = engineValidator({ type: 'Fusion Rocket', maxAcceleration: 9000, safeInAtmosphere: true }, errors, 'engines')
+
+            expect(valid).toBe(false)
+            expect(errors).toEqual([{
+                path: 'engines.maxAcceleration',
+                error: 'Engines that are safe in atmosphere must accelerate at less than 1000, not 9000'
+            }])
+            expect(engineValidator({ type: 'Fusion Rocket', maxAcceleration: 9000, safeInAtmosphere: false })).toBe(true)
+        })
+
+        it('should report the error at each of several paths', () => {
+            const validator = validatorFor<BigObject>()
+                .withRuleAt(['massInTons', 'lengthInMeters'], (x) => x.massInTons < x.lengthInMeters * 100, (x) => 'Too dense to fly')
+            const errors: ValidationError[] = []
+            validator({ massInTons: 1000, lengthInMeters: 5 }, errors)
+
+            expect(errors).toEqual([
+                { path: 'massInTons', error: 'Too dense to fly' },
+                { path: 'lengthInMeters', error: 'Too dense to fly' }
+            ])
+        })
+    })
+
+    describe('run options', () => {
+        const validator = validatorFor<Spaceship>()
+            .withRuleFor('name', (name) => typeof name === 'string', (name) => 'Spaceships need names')
+            .withRuleFor('name', (name) => name.length >= 3, (name) => 'Spaceship names need at least 3 letters')
+            .withRuleFor('crewCount', (crewCount) => crewCount > 0, (crewCount) => 'Spaceships need a crew!')
+            .withRule((ship) => ship.massInTons < 1000000, (ship) => 'Too heavy to fly')
+
+        const invalidSpaceship = { name: 7, crewCount: 0, massInTons: 2000000 }
+
+        it('should run every rule and report errors in declaration order by default', () => {
+            const result = validator.safeParse(invalidSpaceship)
+
+            expect(result.errors).toEqual([
+                { path: 'name', error: 'Spaceships need names' },
+                { path: 'name', error: 'Spaceship names need at least 3 letters' },
+                { path: 'crewCount', error: 'Spaceships need a crew!' },
+                { path: '', error: 'Too heavy to fly' }
+            ])
+        })
+
+        it('should stop at the first failure with abortEarly', () => {
+            expect(validator.safeParse(invalidSpaceship, { abortEarly: true })).toEqual({
+                valid: false,
+                errors: [{ path: 'name', error: 'Spaceships need names' }]
+            })
+        })
+
+        it('should report at most maxErrors errors', () => {
+            expect(validator.safeParse(invalidSpaceship, { maxErrors: 3 }).errors).toEqual([
+                { path: 'name', error: 'Spaceships need names' },
+                { path: 'name', error: 'Spaceship names need at least 3 letters' },
+                { path: 'crewCount', error: 'Spaceships need a crew!' }
+            ])
+        })
+
+        it('should skip the remaining rules for a field once one has failed with skipFailedFields', () => {
+            expect(validator.safeParse(invalidSpaceship, { skipFailedFields: true }).errors).toEqual([
+                { path: 'name', error: 'Spaceships need names' },
+                { path: 'crewCount', error: 'Spaceships need a crew!' },
+                { path: '', error: 'Too heavy to fly' }
+            ])
+        })
+
+        it('should apply the options to nested validators', () => {
+            const fleetValidator = validatorFor<{ ships: Spaceship[] }>()
+                .withRuleFor('ships', arrayOf(validator))
+            const checked: number[] = []
+            const ships = [0, 1, 2].map(index => ({ ...invalidSpaceship, crewCount: { valueOf: () => (checked.push(index), 0) } }))
+
+            const result = fleetValidator.safeParse({ ships }, { abortEarly: true, skipFailedFields: true })
+
+            expect(result.errors).toEqual([{ path: 'ships[0].name', error: 'Spaceships need names' }])
+            expect(checked).toEqual([])
+        })
+    })
+
+    describe('parse, preprocess, default and transform', () => {
+        const isString = (x: any) => typeof x === 'string'
+        const nameValidator = validatorFor<string>(isString, (x) => `Expected a name, but got ${x}`)
+
+        it('should return the output of parse, and throw a ValidationException with the errors when invalid', () => {
+            expect(nameValidator.parse('Rocinante')).toBe('Rocinante')
+
+            let thrown: any
+            try {
+                nameValidator.parse(42)
+            } catch (e) {
+                thrown = e
+            }
+            expect(thrown).toBeInstanceOf(ValidationException)
+            expect(thrown.errors).toEqual([{ path: '', error: 'Expected a name, but got 42' }])
+            expect(thrown.message).toBe('Validation failed with 1 error:\n  (value):\n    - Expected a name, but got 42')
+        })
+
+        it('should run preprocessors in order before the rules when parsing', () => {
+            const validator = nameValidator
+                .preprocess((x) => typeof x === 'string' ? x.trim() : x)
+                .preprocess((x) => typeof x === 'string' ? x.toUpperCase() : x)
+                .withRule((x) => x.length <= 4, (x) => `${x} is too long`)
+
+            expect(validator.safeParse('  mcrn ')).toEqual({ valid: true, value: 'MCRN', errors: [] })
+            expect(validator.safeParse(' rocinante ')).toEqual({
+                valid: false,
+                errors: [{ path: '', error: 'ROCINANTE is too long' }]
+            })
+        })
+
+        it('should fill in defaults for undefined values and missing properties', () => {
+            const validator = validatorFor<Spaceship>()
+                .withRuleFor('name', nameValidator.default('Unnamed'))
+                .withRuleFor('crewCount', validatorFor<number>((x) => typeof x === 'number', (x) => 'Bad crew count').default(() => 1))
+
+            expect(validator.safeParse({})).toEqual({ valid: true, value: { name: 'Unnamed', crewCount: 1 }, errors: [] })
+            expect(validator.safeParse({ name: 'Rocinante', crewCount: 4 })).toEqual({
+                valid: true,
+                value: { name: 'Rocinante', crewCount: 4 },
+                errors: []
+            })
+            expect(nameValidator.default('Unnamed').parse(undefined)).toBe('Unnamed')
+        })
+
+        it('should report missing properties without defaults at their path when parsing', () => {
+            const validator = validatorFor<Spaceship>()
+                .withRuleFor('name', nameValidator)
+
+            expect(validator.safeParse({})).toEqual({
+                valid: false,
+                errors: [{ path: 'name', error: "Missing required property 'name'", code: 'object.required', params: { key: 'name' } }]
+            })
+        })
+
+        it('should transform the output once every rule has passed', () => {
+            const tagsValidator = nameValidator
+                .withRule((x) => x.length > 0, (x) => 'Tags are required')
+                .transform((x) => x.split(','))
+                .transform((tags) => tags.length)
+
+            const count: number = tagsValidator.parse('mcrn,frigate')
+            expect(count).toBe(2)
+            expect(tagsValidator.safeParse('')).toEqual({ valid: false, errors: [{ path: '', error: 'Tags are required' }] })
+        })
+
+        it('should not coerce, default or transform when used as a type guard', () => {
+            const validator = nameValidator
+                .preprocess((x) => String(x))
+                .default('Unnamed')
+                .transform((x) => x.length)
+
+            expect(validator(42)).toBe(false)
+            expect(validator(undefined)).toBe(false)
+            expect(validator('Rocinante')).toBe(true)
+        })
+    })
+
+    describe('missing properties and empty values', () => {
+        const nameValidator = validatorFor<string>((x) => typeof x === 'string', (x) => `Expected a name, but got ${x}`)
+        const validator = validatorFor<Spaceship>()
+            .withRuleFor('name', nameValidator)
+            .withRuleFor('name', (name) => name.length < 50, (name) => `${name} is too darn long`)
+            .withRuleFor('crewCount', (count) => count > 0, (crewCount) => 'Spaceships need a crew!')
+
+        it('should report each missing property once, at its path', () => {
+            const errors: ValidationError[] = []
+
+            expect(validator({}, errors, 'ship')).toBe(false)
+            expect(errors).toEqual([
+                { path: 'ship.name', error: "Missing required property 'name'", code: 'object.required', params: { key: 'name' } },
+                { path: 'ship.crewCount', error: "Missing required property 'crewCount'", code: 'object.required', params: { key: 'crewCount' } }
+            ])
+        })
+
+        it('should reject null and undefined rather than throwing', () => {
+            const errors: ValidationError[] = []
+
+            expect(validator(null, errors, 'ship')).toBe(false)
+            expect(validator(undefined, errors, 'ship')).toBe(false)
+            expect(errors).toEqual([
+                { path: 'ship', error: 'Expected an object, but got null', code: 'object.type', params: { actualType: 'null' }, value: null },
+                { path: 'ship', error: 'Expected an object, but got type undefined', code: 'object.type', params: { actualType: 'undefined' }, value: undefined }
+            ])
+        })
+
+        it('should not run rules for the whole object on null and undefined', () => {
+            const named = objectOf({ name: Rules.isString() })
+                .withRule((ship) => ship.name.length > 0, (ship) => 'Spaceships need cool names!')
+            const crewed = validator.withRule((ship) => ship.crewCount < 100, (ship) => 'That is too many crew')
+
+            expect(named.safeParse(null)).toMatchObject({ valid: false, errors: [{ code: 'object.type' }] })
+            expect(named.safeParse(undefined)).toMatchObject({ valid: false, errors: [{ code: 'object.type' }] })
+            expect(crewed.safeParse(null)).toMatchObject({ valid: false, errors: [{ code: 'object.type' }] })
+            expect(named.safeParse({ name: '' })).toMatchObject({ valid: false, errors: [{ error: 'Spaceships need cool names!' }] })
+        })
+
+        it('should validate objects with a null prototype, or their own hasOwnProperty', () => {
+            const bare = Object.assign(Object.create(null), { name: 'Rocinante', crewCount: 4 })
+            const shadowed = { name: 'Rocinante', crewCount: 4, hasOwnProperty: () => false }
+
+            expect(validator(bare)).toBe(true)
+            expect(validator(shadowed)).toBe(true)
+            expect(validator.safeParse(bare)).toMatchObject({ valid: true, value: { name: 'Rocinante', crewCount: 4 } })
+        })
+
+        it('should accept missing properties whose validators are optional', () => {
+            const optionalValidator = validatorFor<Partial<Spaceship>>()
+                .withRuleFor('name', nameValidator.optional())
+            const errors: ValidationError[] = []
+
+            expect(optionalValidator({})).toBe(true)
+            expect(optionalValidator({ name: undefined })).toBe(true)
+            expect(optionalValidator({ name: null }, errors)).toBe(false)
+            expect(errors).toEqual([{ path: 'name', error: 'Expected a name, but got null' }])
+            expect(optionalValidator.safeParse({})).toEqual({ valid: true, value: {}, errors: [] })
+        })
+
+        it('should accept null with nullable, and both null and undefined with nullish', () => {
+            const nullable = nameValidator.nullable()
+            const nullish = nameValidator.nullish()
+
+            expect(nullable(null)).toBe(true)
+            expect(nullable(undefined)).toBe(false)
+            expect(nullish(null)).toBe(true)
+            expect(nullish(undefined)).toBe(true)
+            expect(nullish(42)).toBe(false)
+        })
+
+        it('should prefer defaults to undefined, and skip transforms for empty values', () => {
+            const lengthValidator = nameValidator.transform((x) => x.length)
+
+            expect(nameValidator.default('Unnamed').optional().parse(undefined)).toBe('Unnamed')
+            expect(lengthValidator.nullish().parse(null)).toBe(null)
+            expect(lengthValidator.nullish().parse('Rocinante')).toBe(9)
+        })
+    })
+
+    describe('refine and brand', () => {
+        type Callsign = string & Brand<'Callsign'>
+        type CrewCount = number & Brand<'CrewCount'>
+
+        const callsignValidator = validatorFor<string>()
+            .withRule(Rules.isString())
+            .refine((x): x is Callsign => /^[A-Z]{3}-\d+$/.test(x), (x) => `${x} is not a callsign`)
+        const crewCountValidator = validatorFor<number>()
+            .withRule(Rules.isInteger())
+            .withRule(Rules.min(1))
+            .brand<'CrewCount'>()
+
+        function launch(callsign: Callsign, crewCount: CrewCount) {
+            return `${callsign} launched with ${crewCount} crew`
+        }
+
+        it('should check refinements like any other rule', () => {
+            const errors: ValidationError[] = []
+
+            expect(callsignValidator('MCR-1')).toBe(true)
+            expect(callsignValidator('Rocinante', errors, 'callsign')).toBe(false)
+            expect(errors).toEqual([{ path: 'callsign', error: 'Rocinante is not a callsign' }])
+        })
+
+        it('should only give validated values the branded type', () => {
+            const callsign: any = 'MCR-1'
+            const crewCount: any = 4
+
+            if (callsignValidator(callsign) && crewCountValidator(crewCount)) {
+                expect(launch(callsign, crewCount)).toBe('MCR-1 launched with 4 crew')
+            }
+            // @ts-expect-error an unchecked string isn't a Callsign
+            launch('MCR-1', crewCount)
+        })
+
+        it('should leave the rules of the builder unchanged when branding', () => {
+            expect(crewCountValidator(4)).toBe(true)
+            expect(crewCountValidator(0)).toBe(false)
+            expect(crewCountValidator(1.5)).toBe(false)
+        })
+
+        it('should compose branded rules with the rest of the builder chain', () => {
+            type Email = string & Brand<'Email'>
+            const emailValidator = validatorFor<string>()
+                .refine(Rules.isEmail<Email>())
+                .withRule(Rules.maxLength(20))
+                .optional()
+            const crewValidator = objectOf({ contact: emailValidator, crewCount: crewCountValidator })
+
+            const crew = crewValidator.parse({ contact: 'naomi@tycho.station', crewCount: 4 })
+            const contact: Email | undefined = crew.contact
+            const crewCount: CrewCount = crew.crewCount
+            expect([contact, crewCount]).toEqual(['naomi@tycho.station', 4])
+            expect(emailValidator('naomi.nagata@tycho.station')).toBe(false)
+            expect(emailValidator(undefined)).toBe(true)
+        })
+
+        it('should brand the parsed output unless a transform changed it', () => {
+            const doubledValidator = crewCountValidator.transform((x) => x * 2).brand<'Doubled'>()
+            const parsed: CrewCount = crewCountValidator.parse(4)
+            // @ts-expect-error the brand applies to the checked value, not the output of the transform
+            const doubled: number & Brand<'Doubled'> = doubledValidator.parse(4)
+
+            expect(parsed).toBe(4)
+            expect(doubled).toBe(8)
+        })
+    })
+})
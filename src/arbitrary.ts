@@ -0,0 +1,791 @@
+import {
+    ObjectPath,
+    ValidationError,
+    Validator
+} from './models'
+import { BuilderMetadata, ValidatorMetadata, metadataOf } from './metadata'
+import { joinObjectPaths } from './paths'
+
+/**
+ * A seeded source of random numbers. The same seed always produces the same
+ * sequence, so failures found by fuzzing can be reproduced.
+ */
+export interface Random {
+    readonly seed: number
+
+    // A number from 0 (inclusive) to 1 (exclusive)
+    next(): number
+
+    // An integer from min to max, both inclusive
+    integer(min: number, max: number): number
+
+    pick<T>(values: readonly T[]): T
+
+    boolean(probability?: number): boolean
+}
+
+/**
+ * Creates a Random from a seed, using the mulberry32 generator
+ */
+export function createRandom(seed: number): Random {
+    let state = seed >>> 0
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+    const integer = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+    return {
+        seed,
+        next,
+        integer,
+        pick: <T>(values: readonly T[]): T => values[integer(0, values.length - 1)],
+        boolean: (probability: number = 0.5) => next() < probability
+    }
+}
+
+export interface ArbitraryOptions {
+    /**
+     * Seeds the random values. Defaults to a seed based on the current time,
+     * which is available as `arbitrary.seed` to reproduce a run.
+     */
+    seed?: number
+
+    /**
+     * How many times recursive (lazy) validators are followed before values
+     * are kept as small as they can be. Defaults to 3.
+     */
+    maxDepth?: number
+
+    /**
+     * How many values are generated when looking for one the validator
+     * accepts, for validators with checks that can't be read from their
+     * metadata. Defaults to 100.
+     */
+    maxAttempts?: number
+}
+
+/**
+ * A value which is expected to be invalid, and the path an error is expected at
+ */
+export interface InvalidSample {
+    value: any
+    path: ObjectPath
+    // What was changed, e.g. 'removed a required property'
+    mutation: string
+}
+
+export interface Arbitrary<T> {
+    readonly seed: number
+
+    /**
+     * Generates a value the validator accepts
+     */
+    valid(): T
+
+    /**
+     * Generates a near miss: a valid value with a single change that should
+     * make the validator reject it, such as a missing property, a string one
+     * character too short or a number of the wrong type
+     */
+    invalid(): InvalidSample
+}
+
+// A change to the generated value which should be rejected
+type Mutation = { mutation: string, value: any } | { mutation: string, remove: true }
+
+// A place in the generated value where it can be changed, with the path it's at
+interface Site {
+    segments: (string | number)[]
+    mutations: Mutation[]
+}
+
+interface GenerateContext {
+    random: Random
+    maxDepth: number
+    depth: number
+    sites: Site[]
+    // Sites aren't recorded inside unions, where a change may match another option
+    unions: number
+    // Set when the value depends on checks that can't be read from metadata
+    unchecked: boolean
+}
+
+interface Generated {
+    value: any
+    sites: Site[]
+    unchecked: boolean
+}
+
+// What a list of metadata checking the same value, e.g. the rules of a builder, allows
+interface Spec {
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'binary' | 'regexp' | 'promise' | 'object'
+    format?: 'email' | 'uuid' | 'url' | 'iso8601'
+    // Lengths in bytes for binary data
+    minLength?: number
+    maxLength?: number
+    // Times in milliseconds for dates
+    min?: number
+    max?: number
+    options?: any[]
+    structures: ValidatorMetadata[]
+    properties: { [key: string]: ValidatorMetadata[] }
+    strict: boolean
+    unchecked: boolean
+}
+
+const CHARACTERS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel']
+
+function emptySpec(): Spec {
+    return { structures: [], properties: {}, strict: false, unchecked: false }
+}
+
+function atLeast(current: number | undefined, value: number): number {
+    return current === undefined ? value : Math.max(current, value)
+}
+
+function atMost(current: number | undefined, value: number): number {
+    return current === undefined ? value : Math.min(current, value)
+}
+
+function addToSpec(spec: Spec, metadata: ValidatorMetadata) {
+    switch (metadata.kind) {
+        case 'rule': {
+            const params = metadata.params
+            switch (metadata.rule) {
+                case 'isString': spec.type = spec.type || 'string'; break
+                case 'isNumber': spec.type = spec.type === 'integer' ? 'integer' : 'number'; break
+                case 'isInteger': spec.type = 'integer'; break
+                case 'isBoolean': spec.type = 'boolean'; break
+                case 'isDate': spec.type = 'date'; break
+                case 'minDate': spec.type = 'date'; spec.min = atLeast(spec.min, Date.parse(params.min)); break
+                case 'maxDate': spec.type = 'date'; spec.max = atMost(spec.max, Date.parse(params.max)); break
+                case 'isBinary': spec.type = 'binary'; break
+                case 'minByteLength': spec.type = 'binary'; spec.minLength = atLeast(spec.minLength, params.min); break
+                case 'maxByteLength': spec.type = 'binary'; spec.maxLength = atMost(spec.maxLength, params.max); break
+                // Instances can't be made without knowing how to call the constructor
+                case 'instanceOf': spec.unchecked = true; break
+                case 'isRegExp': spec.type = 'regexp'; break
+                case 'isPromise': spec.type = 'promise'; break
+                case 'isObject': spec.type = 'object'; break
+                case 'isEmail': spec.type = 'string'; spec.format = 'email'; break
+                case 'isUUID': spec.type = 'string'; spec.format = 'uuid'; break
+                case 'isURL': spec.type = 'string'; spec.format = 'url'; break
+                case 'isISO8601': spec.type = 'string'; spec.format = 'iso8601'; break
+                case 'matches': spec.type = 'string'; spec.unchecked = true; break
+                case 'minLength': spec.minLength = atLeast(spec.minLength, params.min); break
+                case 'maxLength': spec.maxLength = atMost(spec.maxLength, params.max); break
+                // These only accept numbers, so they may be the only rule saying that's what the value is
+                case 'min': spec.type = spec.type || 'number'; spec.min = atLeast(spec.min, params.min); break
+                case 'max': spec.type = spec.type || 'number'; spec.max = atMost(spec.max, params.max); break
+                case 'inRange':
+                    spec.type = spec.type || 'number'
+                    spec.min = atLeast(spec.min, params.min)
+                    spec.max = atMost(spec.max, params.max)
+                    break
+                case 'isOneOf':
+                    spec.options = spec.options === undefined
+                        ? params.options
+                        : spec.options.filter(option => params.options.indexOf(option) !== -1)
+                    break
+            }
+            return
+        }
+        case 'builder':
+            // Only the rules of nested builders apply, as the outer builder decides what's optional
+            metadata.rules.forEach(rule => addToSpec(spec, rule))
+            Object.keys(metadata.properties).concat(Object.keys(metadata.asyncProperties)).forEach(key => {
+                spec.properties[key] = (spec.properties[key] || []).concat(metadata.properties[key] || [])
+            })
+            spec.strict = spec.strict || metadata.unknownKeys === 'strict'
+            return
+        case 'custom':
+            spec.unchecked = true
+            return
+        default:
+            spec.structures.push(metadata)
+    }
+}
+
+function specOf(metadata: ValidatorMetadata[]): Spec {
+    const spec = emptySpec()
+    metadata.forEach(item => addToSpec(spec, item))
+    return spec
+}
+
+function isOptionalProperty(rules: ValidatorMetadata[]): boolean {
+    return rules.some(rule => rule.kind === 'builder' && rule.optional)
+}
+
+function isShallow(context: GenerateContext): boolean {
+    return context.depth >= context.maxDepth
+}
+
+function addSite(context: GenerateContext, segments: (string | number)[], mutations: Mutation[]) {
+    if (context.unions === 0 && mutations.length > 0) {
+        context.sites.push({ segments, mutations })
+    }
+}
+
+function randomString(random: Random, length: number): string {
+    let text = ''
+    for (let i = 0; i < length; i++) {
+        text += CHARACTERS.charAt(random.integer(0, CHARACTERS.length - 1))
+    }
+    return text
+}
+
+function randomHex(random: Random, length: number): string {
+    let text = ''
+    for (let i = 0; i < length; i++) {
+        text += random.integer(0, 15).toString(16)
+    }
+    return text
+}
+
+function pad(value: number, length: number): string {
+    let text = String(value)
+    while (text.length < length) {
+        text = `0${text}`
+    }
+    return text
+}
+
+function generateString(spec: Spec, random: Random): string {
+    switch (spec.format) {
+        case 'email':
+            return `${random.pick(WORDS)}.${randomString(random, 4)}@${random.pick(WORDS)}.example`
+        case 'uuid':
+            return [randomHex(random, 8), randomHex(random, 4), `4${randomHex(random, 3)}`, `a${randomHex(random, 3)}`, randomHex(random, 12)].join('-')
+        case 'url':
+            return `https://${random.pick(WORDS)}.example/${randomString(random, random.integer(0, 8))}`
+        case 'iso8601': {
+            const date = `${random.integer(1970, 2100)}-${pad(random.integer(1, 12), 2)}-${pad(random.integer(1, 28), 2)}`
+            return random.boolean()
+                ? date
+                : `${date}T${pad(random.integer(0, 23), 2)}:${pad(random.integer(0, 59), 2)}:${pad(random.integer(0, 59), 2)}Z`
+        }
+    }
+    const minLength = spec.minLength || 0
+    const maxLength = spec.maxLength !== undefined ? spec.maxLength : minLength + 12
+    return randomString(random, random.integer(minLength, Math.max(minLength, maxLength)))
+}
+
+function generateNumber(spec: Spec, random: Random): number {
+    const min = spec.min !== undefined ? spec.min : spec.max !== undefined ? spec.max - 1000 : -1000
+    const max = spec.max !== undefined ? spec.max : min + 2000
+    if (spec.type === 'integer') {
+        return random.integer(Math.ceil(min), Math.floor(max))
+    }
+    // Favour round numbers now and then, as they're the edges validators tend to get wrong
+    return random.boolean(0.2) ? random.pick([min, max]) : min + random.next() * (max - min)
+}
+
+function generateDate(spec: Spec, random: Random): Date {
+    const min = spec.min !== undefined ? spec.min : spec.max !== undefined ? spec.max - 3155760000000 : 0
+    const max = spec.max !== undefined ? spec.max : min + 4102444800000
+    return new Date(random.integer(min, max))
+}
+
+function generateBinary(spec: Spec, random: Random): Uint8Array {
+    const minLength = spec.minLength || 0
+    const maxLength = spec.maxLength !== undefined ? spec.maxLength : minLength + 16
+    const bytes = new Uint8Array(random.integer(minLength, Math.max(minLength, maxLength)))
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = random.integer(0, 255)
+    }
+    return bytes
+}
+
+function anyValue(random: Random): any {
+    return random.pick([randomString(random, random.integer(0, 8)), random.integer(-100, 100), random.boolean(), null])
+}
+
+// Values which are the wrong type for the spec, or just outside its limits
+function mutationsOf(spec: Spec): Mutation[] {
+    const mutations: Mutation[] = []
+    if (spec.options !== undefined) {
+        const notAnOption = spec.options.every(option => typeof option === 'number')
+            ? Math.max(...spec.options) + 1
+            : `not ${spec.options.join(' or ')}`
+        mutations.push({ mutation: 'a value that isn\'t one of the options', value: notAnOption })
+    }
+    switch (spec.type) {
+        case 'string':
+            mutations.push({ mutation: 'a number instead of a string', value: 42 })
+            break
+        case 'number':
+        case 'integer':
+            mutations.push({ mutation: 'a string instead of a number', value: '42' })
+            break
+        case 'boolean':
+            mutations.push({ mutation: 'a string instead of a boolean', value: 'true' })
+            break
+        case 'date':
+            mutations.push({ mutation: 'an invalid Date', value: new Date('not a date') })
+            if (spec.min !== undefined) {
+                mutations.push({ mutation: 'a date before the earliest allowed', value: new Date(spec.min - 1) })
+            }
+            if (spec.max !== undefined) {
+                mutations.push({ mutation: 'a date after the latest allowed', value: new Date(spec.max + 1) })
+            }
+            break
+        case 'binary':
+            mutations.push({ mutation: 'a string instead of binary data', value: 'not binary' })
+            if (spec.minLength !== undefined && spec.minLength > 0) {
+                mutations.push({ mutation: 'binary data one byte too short', value: new Uint8Array(spec.minLength - 1) })
+            }
+            if (spec.maxLength !== undefined) {
+                mutations.push({ mutation: 'binary data one byte too long', value: new Uint8Array(spec.maxLength + 1) })
+            }
+            break
+        case 'regexp':
+            mutations.push({ mutation: 'a string instead of a RegExp', value: '^[a-z]+$' })
+            break
+        case 'promise':
+            mutations.push({ mutation: 'a string instead of a Promise', value: 'not a promise' })
+            break
+        case 'object':
+            mutations.push({ mutation: 'a string instead of an object', value: 'not an object' })
+            break
+    }
+    if (spec.type === 'string') {
+        const formats = { email: 'not an email', uuid: 'not-a-uuid', url: 'not a url', iso8601: '2020-13-45' }
+        if (spec.format !== undefined) {
+            mutations.push({ mutation: `a string that isn't a valid ${spec.format}`, value: formats[spec.format] })
+        }
+        if (spec.minLength !== undefined && spec.minLength > 0) {
+            mutations.push({ mutation: 'a string one character too short', value: 'x'.repeat(spec.minLength - 1) })
+        }
+        if (spec.maxLength !== undefined) {
+            mutations.push({ mutation: 'a string one character too long', value: 'x'.repeat(spec.maxLength + 1) })
+        }
+    }
+    if (spec.type === 'number' || spec.type === 'integer') {
+        if (spec.min !== undefined) {
+            mutations.push({ mutation: 'a number below the minimum', value: spec.min - 1 })
+        }
+        if (spec.max !== undefined) {
+            mutations.push({ mutation: 'a number above the maximum', value: spec.max + 1 })
+        }
+        if (spec.type === 'integer') {
+            mutations.push({ mutation: 'a fraction instead of an integer', value: (spec.min !== undefined ? spec.min : 0) + 0.5 })
+        }
+    }
+    return mutations
+}
+
+function generateObject(spec: Spec, context: GenerateContext, segments: (string | number)[]): any {
+    const value: { [key: string]: any } = {}
+    Object.keys(spec.properties).forEach(key => {
+        const rules = spec.properties[key]
+        const propertySegments = segments.concat([key])
+        if (isOptionalProperty(rules)) {
+            if (isShallow(context) || context.random.boolean(0.3)) {
+                return
+            }
+        } else {
+            addSite(context, propertySegments, [{ mutation: 'removed a required property', remove: true }])
+        }
+        value[key] = rules.length === 1
+            ? generateMetadata(rules[0], context, propertySegments)
+            : generateSpec(specOf(rules), context, propertySegments)
+    })
+    if (spec.strict) {
+        addSite(context, segments.concat(['unexpectedProperty']), [{ mutation: 'added an unknown property', value: true }])
+    }
+    return value
+}
+
+function generateSpec(spec: Spec, context: GenerateContext, segments: (string | number)[]): any {
+    const random = context.random
+    context.unchecked = context.unchecked || spec.unchecked || (spec.format !== undefined && (spec.minLength !== undefined || spec.maxLength !== undefined))
+
+    if (spec.structures.length > 0) {
+        // Further structures checking the same value, e.g. several arrayOfs, may disagree with the first
+        context.unchecked = context.unchecked || spec.structures.length > 1
+        const value = generateStructure(spec.structures[0], spec, context, segments)
+        if (Object.keys(spec.properties).length > 0 && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            return { ...value, ...generateObject(spec, context, segments) }
+        }
+        return value
+    }
+
+    addSite(context, segments, mutationsOf(spec))
+    if (spec.options !== undefined) {
+        return random.pick(spec.options)
+    }
+    switch (spec.type) {
+        case 'string': return generateString(spec, random)
+        case 'number':
+        case 'integer': return generateNumber(spec, random)
+        case 'boolean': return random.boolean()
+        case 'date': return generateDate(spec, random)
+        case 'binary': return generateBinary(spec, random)
+        case 'regexp': return new RegExp(randomString(random, random.integer(1, 8)))
+        case 'promise': return Promise.resolve(anyValue(random))
+    }
+    if (spec.type === 'object' || Object.keys(spec.properties).length > 0) {
+        return generateObject(spec, context, segments)
+    }
+    // Nothing is known about the value, so any will do unless a custom check says otherwise
+    return anyValue(random)
+}
+
+function generateSize(random: Random, shallow: boolean, minLength?: number, maxLength?: number): number {
+    const min = minLength || 0
+    if (shallow) {
+        return min
+    }
+    return random.integer(min, Math.max(min, maxLength !== undefined ? Math.min(maxLength, min + 4) : min + 4))
+}
+
+function sizeMutations(noun: string, value: any[], minLength?: number, maxLength?: number): Mutation[] {
+    const mutations: Mutation[] = []
+    if (minLength !== undefined && minLength > 0) {
+        mutations.push({ mutation: `an array with one ${noun} too few`, value: value.slice(0, minLength - 1) })
+    }
+    if (maxLength !== undefined && value.length > 0) {
+        const tooLong = value.slice()
+        while (tooLong.length <= maxLength) {
+            tooLong.push(value[tooLong.length % value.length])
+        }
+        mutations.push({ mutation: `an array with one ${noun} too many`, value: tooLong })
+    }
+    return mutations
+}
+
+function generateUnique(generate: () => any, size: number): any[] {
+    const values: any[] = []
+    for (let attempt = 0; values.length < size && attempt < size * 10; attempt++) {
+        const value = generate()
+        if (values.indexOf(value) === -1) {
+            values.push(value)
+        }
+    }
+    return values
+}
+
+function generateStructure(metadata: ValidatorMetadata, spec: Spec, context: GenerateContext, segments: (string | number)[]): any {
+    const random = context.random
+    switch (metadata.kind) {
+        case 'array': {
+            const minLength = spec.minLength !== undefined ? atLeast(metadata.minLength, spec.minLength) : metadata.minLength
+            const maxLength = spec.maxLength !== undefined ? atMost(metadata.maxLength, spec.maxLength) : metadata.maxLength
+            const size = generateSize(random, isShallow(context), minLength, maxLength)
+            let value: any[]
+            if (metadata.unique === 'identity') {
+                // Sites aren't recorded for elements, as a dropped duplicate's sites would point past the end
+                context.unions++
+                value = generateUnique(() => generateMetadata(metadata.element, context, segments), size)
+                context.unions--
+            } else {
+                context.unchecked = context.unchecked || metadata.unique === 'key'
+                value = []
+                for (let i = 0; i < size; i++) {
+                    value.push(generateMetadata(metadata.element, context, segments.concat([i])))
+                }
+            }
+            addSite(context, segments, [{ mutation: 'a string instead of an array', value: 'not an array' } as Mutation]
+                .concat(sizeMutations('item', value, minLength, maxLength)))
+            return value
+        }
+        case 'tuple':
+            addSite(context, segments, [{ mutation: 'a tuple with an item missing', value: [] }]
+                .filter(() => metadata.elements.length > 0))
+            return metadata.elements.map((element, i) => generateMetadata(element, context, segments.concat([i])))
+        case 'record': {
+            const value: { [key: string]: any } = {}
+            const size = generateSize(random, isShallow(context), metadata.minLength, metadata.maxLength)
+            context.unions++
+            const keys = generateUnique(() => metadata.key !== undefined
+                ? generateMetadata(metadata.key, context, segments)
+                : `${random.pick(WORDS)}${random.integer(0, 99)}`, size)
+            context.unions--
+            keys.forEach(key => {
+                value[key] = generateMetadata(metadata.value, context, segments.concat([String(key)]))
+            })
+            addSite(context, segments, [{ mutation: 'a string instead of a record', value: 'not a record' }])
+            return value
+        }
+        case 'map': {
+            const size = generateSize(random, isShallow(context), metadata.minLength, metadata.maxLength)
+            // Errors inside Maps and Sets aren't at paths that can be predicted, so no sites are recorded
+            context.unions++
+            const keys = generateUnique(() => generateMetadata(metadata.key, context, segments), size)
+            const value = new Map(keys.map(key => [key, generateMetadata(metadata.value, context, segments)] as [any, any]))
+            context.unions--
+            addSite(context, segments, [{ mutation: 'an object instead of a Map', value: {} }])
+            return value
+        }
+        case 'set': {
+            const size = generateSize(random, isShallow(context), metadata.minLength, metadata.maxLength)
+            context.unions++
+            const value = new Set(generateUnique(() => generateMetadata(metadata.element, context, segments), size))
+            context.unions--
+            addSite(context, segments, [{ mutation: 'an array instead of a Set', value: [] }])
+            return value
+        }
+        case 'oneOf': {
+            context.unions++
+            const value = generateMetadata(random.pick(metadata.options), context, segments)
+            context.unions--
+            return value
+        }
+        case 'allOf': {
+            context.unions++
+            const parts = metadata.validators.map(validator => generateMetadata(validator, context, segments))
+            context.unions--
+            return parts.every(part => typeof part === 'object' && part !== null && !Array.isArray(part))
+                ? parts.reduce((merged, part) => ({ ...merged, ...part }), {})
+                : parts[parts.length - 1]
+        }
+        case 'discriminated': {
+            const tag = random.pick(Object.keys(metadata.mapping))
+            const value = generateMetadata(metadata.mapping[tag], context, segments)
+            addSite(context, segments.concat([metadata.key]), [{ mutation: 'an unknown discriminator', value: `not ${tag}` }])
+            return typeof value === 'object' && value !== null ? { ...value, [metadata.key]: tag } : value
+        }
+        case 'when': {
+            // Whether the predicate holds can only be known by checking the value
+            context.unchecked = true
+            context.unions++
+            const value = generateMetadata(random.boolean() || metadata.else === undefined ? metadata.then : metadata.else, context, segments)
+            context.unions--
+            return value
+        }
+        case 'lazy': {
+            if (context.depth > context.maxDepth + 20) {
+                throw new Error(`Could not generate a value for ${metadata.name || 'a recursive validator'} within the depth limit`)
+            }
+            context.depth++
+            const value = generateMetadata(metadataOf(metadata.resolve()), context, segments)
+            context.depth--
+            return value
+        }
+        case 'nullable':
+            return random.boolean(0.2) || isShallow(context) ? null : generateMetadata(metadata.validator, context, segments)
+        case 'jsonSchema':
+            context.unchecked = true
+            return generateFromSchema(metadata.schema, random)
+        default:
+            return generateSpec(specOf([metadata]), context, segments)
+    }
+}
+
+// A best effort for validators built from JSON Schemas, covering the common keywords
+function generateFromSchema(schema: any, random: Random): any {
+    if (typeof schema !== 'object' || schema === null) {
+        return anyValue(random)
+    }
+    if (schema.hasOwnProperty('const')) {
+        return schema.const
+    }
+    if (Array.isArray(schema.enum)) {
+        return random.pick(schema.enum)
+    }
+    const type = Array.isArray(schema.type) ? random.pick(schema.type) : schema.type
+    switch (type) {
+        case 'string':
+            return generateString({ ...emptySpec(), minLength: schema.minLength, maxLength: schema.maxLength }, random)
+        case 'number':
+        case 'integer':
+            return generateNumber({ ...emptySpec(), type, min: schema.minimum, max: schema.maximum }, random)
+        case 'boolean':
+            return random.boolean()
+        case 'null':
+            return null
+        case 'array': {
+            const size = generateSize(random, false, schema.minItems, schema.maxItems)
+            const items = []
+            for (let i = 0; i < size; i++) {
+                items.push(generateFromSchema(schema.items, random))
+            }
+            return items
+        }
+        case 'object': {
+            const value: { [key: string]: any } = {}
+            const required: string[] = schema.required || []
+            Object.keys(schema.properties || {}).forEach(key => {
+                if (required.indexOf(key) !== -1 || random.boolean()) {
+                    value[key] = generateFromSchema(schema.properties[key], random)
+                }
+            })
+            return value
+        }
+    }
+    return anyValue(random)
+}
+
+function generateBuilder(metadata: BuilderMetadata, context: GenerateContext, segments: (string | number)[]): any {
+    if (metadata.optional && (isShallow(context) || context.random.boolean(0.1))) {
+        return undefined
+    }
+    if (metadata.nullable && (isShallow(context) || context.random.boolean(0.2))) {
+        return null
+    }
+    return generateSpec(specOf([metadata]), context, segments)
+}
+
+function generateMetadata(metadata: ValidatorMetadata, context: GenerateContext, segments: (string | number)[]): any {
+    if (metadata.kind === 'builder') {
+        return generateBuilder(metadata, context, segments)
+    }
+    if (metadata.kind === 'rule' || metadata.kind === 'custom') {
+        return generateSpec(specOf([metadata]), context, segments)
+    }
+    return generateStructure(metadata, emptySpec(), context, segments)
+}
+
+// Replaces (or removes) the value at a path, copying the objects and arrays along it
+function mutateAt(value: any, segments: (string | number)[], mutation: Mutation): any {
+    if (segments.length === 0) {
+        return 'remove' in mutation ? undefined : mutation.value
+    }
+    const copy = Array.isArray(value) ? value.slice() : { ...value }
+    const key = segments[0]
+    if (segments.length === 1 && 'remove' in mutation) {
+        delete copy[key]
+    } else {
+        copy[key] = mutateAt(value[key], segments.slice(1), mutation)
+    }
+    return copy
+}
+
+function makeArbitrary<T>(validator: Validator<T>, options: ArbitraryOptions) {
+    const random = createRandom(options.seed !== undefined ? options.seed : Date.now())
+    const maxAttempts = options.maxAttempts !== undefined ? options.maxAttempts : 100
+    const metadata = metadataOf(validator)
+
+    const generate = (): Generated => {
+        const context: GenerateContext = {
+            random,
+            maxDepth: options.maxDepth !== undefined ? options.maxDepth : 3,
+            depth: 0,
+            sites: [],
+            unions: 0,
+            unchecked: false
+        }
+        const value = generateMetadata(metadata, context, [])
+        return { value, sites: context.sites, unchecked: context.unchecked }
+    }
+
+    const generateValid = (): Generated => {
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            const generated = generate()
+            if (validator(generated.value)) {
+                return generated
+            }
+        }
+        throw new Error(`Could not generate a valid value in ${maxAttempts} attempts (seed ${random.seed}). The validator may have checks, such as patterns or custom rules, that random values rarely pass.`)
+    }
+
+    const mutate = (generated: Generated): InvalidSample => {
+        if (generated.sites.length === 0) {
+            throw new Error(`Could not generate an invalid value (seed ${random.seed}), as nothing is known about what the validator rejects`)
+        }
+        const site = random.pick(generated.sites)
+        const mutation = random.pick(site.mutations)
+        return {
+            value: mutateAt(generated.value, site.segments, mutation),
+            path: joinObjectPaths(...site.segments),
+            mutation: mutation.mutation
+        }
+    }
+
+    return { random, generate, generateValid, mutate }
+}
+
+/**
+ * Builds a generator of test data for a validator, driven by its metadata
+ * (see metadataOf). Valid values respect the built-in rules, e.g. lengths,
+ * ranges, formats and options, and the shapes of objects, arrays, unions and
+ * recursive validators. Invalid values are near misses of valid ones.
+ *
+ * ```
+ * const ships = arbitraryFor(spaceshipValidator, { seed: 42 })
+ * ships.valid()   // { name: 'x3Fq', engines: [{ type: 'ion', ... }] }
+ * ships.invalid() // { value: { name: 'x3Fq', engines: [{ type: 42, ... }] }, path: 'engines[0].type', ... }
+ * ```
+ *
+ * Custom rules and patterns can't be read from metadata, so values are
+ * generated until one passes them, which may fail for checks random values
+ * rarely pass.
+ */
+export function arbitraryFor<T>(validator: Validator<T>, options: ArbitraryOptions = {}): Arbitrary<T> {
+    const { random, generateValid, mutate } = makeArbitrary(validator, options)
+    return {
+        seed: random.seed,
+        valid: () => generateValid().value,
+        invalid: () => mutate(generateValid())
+    }
+}
+
+export interface FuzzOptions extends ArbitraryOptions {
+    /**
+     * How many valid and invalid values to check. Defaults to 100.
+     */
+    runs?: number
+}
+
+export interface FuzzFailure {
+    // Why the check failed, e.g. 'A valid value was rejected'
+    reason: string
+    value: any
+    // For invalid values, the path an error was expected at
+    path?: ObjectPath
+    mutation?: string
+    errors: ValidationError[]
+}
+
+export interface FuzzResult {
+    seed: number
+    runs: number
+    failures: FuzzFailure[]
+}
+
+/**
+ * Checks a validator against values generated from its metadata: every
+ * valid value must pass, and every near miss must be rejected with an error
+ * at the path that was changed. Disagreements point at metadata that
+ * doesn't match what the validator checks, or at a validator that reports
+ * errors in the wrong place.
+ *
+ * ```
+ * expect(fuzz(spaceshipValidator, { seed: 1, runs: 200 }).failures).toEqual([])
+ * ```
+ */
+export function fuzz(validator: Validator<any>, options: FuzzOptions = {}): FuzzResult {
+    const { random, generate, generateValid, mutate } = makeArbitrary(validator, options)
+    const runs = options.runs !== undefined ? options.runs : 100
+    const failures: FuzzFailure[] = []
+    for (let run = 0; run < runs; run++) {
+        let generated = generate()
+        if (generated.unchecked) {
+            // The value may fail checks the metadata doesn't describe, which isn't a failure of the validator
+            generated = generateValid()
+        } else {
+            const errors: ValidationError[] = []
+            if (!validator(generated.value, errors)) {
+                failures.push({ reason: 'A valid value was rejected', value: generated.value, errors })
+                continue
+            }
+        }
+
+        if (generated.sites.length === 0) {
+            continue
+        }
+        const sample = mutate(generated)
+        const errors: ValidationError[] = []
+        if (validator(sample.value, errors)) {
+            failures.push({ reason: 'An invalid value was accepted', ...sample, errors })
+        } else if (!errors.some(error => (error.path || '') === sample.path)) {
+            failures.push({ reason: `No error was reported at '${sample.path}'`, ...sample, errors })
+        }
+    }
+    return { seed: random.seed, runs, failures }
+}
@@ -0,0 +1,37 @@
+import {
+    ParseOptions,
+    ValidationError,
+    Validator
+} from './models'
+import { whileRunning } from './parsing'
+import { localizeErrors } from './messages'
+import { ValidationException } from './exceptions'
+
+/**
+ * Checks a value, throwing a ValidationException holding every error if it's
+ * invalid. Otherwise TypeScript narrows the value to the validator's type.
+ *
+ * ```
+ * function launch(ship: unknown) {
+ *     assertValid(spaceshipValidator, ship)
+ *     // ship is a Spaceship from here on
+ * }
+ * ```
+ *
+ * Like calling the validator as a type guard, no coercions, defaults or
+ * transforms are applied. Use parse for those. Asynchronous rules can't be
+ * run either, so values reaching them are reported invalid.
+ */
+export function assertValid<T>(validator: Validator<T>, value: unknown, options: ParseOptions = {}): asserts value is T {
+    let errors: ValidationError[] = []
+    if (whileRunning(options, errors, () => validator(value, errors))) {
+        return
+    }
+    if (options.maxErrors !== undefined) {
+        errors = errors.slice(0, options.maxErrors)
+    }
+    if (options.messages !== undefined) {
+        errors = localizeErrors(errors, options.messages, options.locale)
+    }
+    throw new ValidationException(errors)
+}
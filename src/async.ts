@@ -0,0 +1,171 @@
+import {
+    AsyncCheck,
+    AsyncValidationOptions,
+    AsyncValidator,
+    ErrorCode,
+    ErrorCodeBuilder,
+    ErrorMessageBuilder,
+    ErrorParamsBuilder,
+    ObjectPath,
+    ParseResult,
+    RunOptions,
+    UnknownKeyPolicy,
+    ValidationError,
+    Validator
+} from './models'
+import { parseWith, whileInheritingUnknownKeys, whileParsing, whileRunning } from './parsing'
+import { localizeErrors } from './messages'
+
+/**
+ * An asynchronous rule that was reached while validating a value synchronously,
+ * and still needs to be run
+ */
+export interface AsyncTask {
+    rule: AsyncValidator<any> | Validator<any>
+    value: any
+    errorCollector?: ValidationError[]
+    path?: ObjectPath
+    // The policy inherited where the rule was reached, for nested builders it runs
+    unknownKeys?: UnknownKeyPolicy
+}
+
+// The tasks scheduled by the validation currently being captured, if any.
+// Validation is synchronous, so a single slot is enough to thread this through
+// validators that only know about (value, errorCollector, path).
+let capturing: AsyncTask[] | undefined
+
+/**
+ * Runs fn, returning any asynchronous tasks scheduled while it ran
+ */
+export function captureAsyncTasks<R>(fn: () => R): { result: R, tasks: AsyncTask[] } {
+    const previous = capturing
+    const tasks: AsyncTask[] = []
+    capturing = tasks
+    try {
+        return { result: fn(), tasks }
+    } finally {
+        capturing = previous
+    }
+}
+
+/**
+ * Schedules tasks to run once synchronous validation is finished. Outside of
+ * validateAsync nothing is capturing, so the tasks can't be run, and false is
+ * returned.
+ */
+export function scheduleAsyncTasks(tasks: AsyncTask[]): boolean {
+    if (capturing === undefined) {
+        return false
+    }
+    tasks.forEach(task => capturing!.push(task))
+    return true
+}
+
+/**
+ * The error reported when asynchronous rules are reached while validating
+ * synchronously, as they can't be run and the value can't be known to be valid
+ */
+export function asyncRequiredError(path?: ObjectPath): ValidationError {
+    return {
+        path: path || '',
+        error: 'Asynchronous rules can only be checked with validateAsync',
+        code: 'async.required',
+        params: {}
+    }
+}
+
+/**
+ * Builds an asynchronous validator out of an asynchronous check, in the same way
+ * validatorFor does for synchronous checks
+ */
+export function asyncValidatorFor<T>(
+    check: AsyncCheck,
+    errorMessageBuilder: ErrorMessageBuilder,
+    code?: ErrorCode | ErrorCodeBuilder,
+    paramsBuilder?: ErrorParamsBuilder
+): AsyncValidator<T> {
+    return (x: any, errorCollector?: ValidationError[], path?: ObjectPath) => check(x).then(valid => {
+        if (errorCollector !== undefined && !valid) {
+            const error: ValidationError = {
+                path: path,
+                error: errorMessageBuilder(x)
+            }
+            if (code !== undefined) {
+                error.code = typeof code === 'function' ? code(x) : code
+                error.params = paramsBuilder !== undefined ? paramsBuilder(x) : {}
+                error.value = x
+            }
+            errorCollector.push(error)
+        }
+        return valid
+    })
+}
+
+/**
+ * Runs tasks with at most `concurrency` of them in flight at once. Tasks may
+ * schedule more tasks, when an asynchronous rule is itself a validator with
+ * asynchronous rules, and these are run too. No new tasks are started once
+ * the RunOptions say to stop.
+ */
+function runAsyncTasks(tasks: AsyncTask[], concurrency: number, options: RunOptions, errors: ValidationError[]): Promise<boolean> {
+    const queue = tasks.slice()
+    let valid = true
+    const stopped = () => (!valid && !!options.abortEarly) || (options.maxErrors !== undefined && errors.length >= options.maxErrors)
+
+    const runNext = (): Promise<void> => {
+        const task = queue.shift()
+        if (task === undefined || stopped()) {
+            return Promise.resolve()
+        }
+        const captured = whileParsing(() => whileRunning(options, errors, () => whileInheritingUnknownKeys(task.unknownKeys, () => {
+            return captureAsyncTasks(() => task.rule(task.value, task.errorCollector, task.path))
+        })))
+        return Promise.resolve(captured.result).then(result => {
+            valid = !!result && valid
+            // Only follow up on nested rules once the rule itself has passed
+            if (result) {
+                captured.tasks.forEach(nested => queue.push(nested))
+            }
+        }).then(runNext)
+    }
+
+    const drain = (): Promise<boolean> => {
+        const running: Promise<void>[] = []
+        const workers = Math.min(Math.max(concurrency, 1), queue.length)
+        for (let i = 0; i < workers; i++) {
+            running.push(runNext())
+        }
+        // Nested tasks may have been queued after some workers ran out of work
+        return Promise.all(running).then(() => queue.length > 0 && !stopped() ? drain() : valid)
+    }
+
+    return drain()
+}
+
+/**
+ * Validates a value with any validator, running its synchronous rules and then
+ * any asynchronous rules reached while doing so. A builder only runs its
+ * asynchronous rules once its synchronous rules have passed, so e.g. a lookup
+ * is never made with a malformed id.
+ *
+ * Like safeParse, preprocessors, defaults and transforms are applied.
+ */
+export function validateAsync<T>(validator: Validator<T>, value: any, options: AsyncValidationOptions = {}): Promise<ParseResult<T>> {
+    let errors: ValidationError[] = []
+    const concurrency = options.concurrency !== undefined ? options.concurrency : Infinity
+    const captured = whileParsing(() => whileRunning(options, errors, () => captureAsyncTasks(() => parseWith(validator, value, errors))))
+    const parsed = captured.result
+    // Asynchronous rules only run if synchronous validation didn't already decide to stop
+    const tasks = parsed.valid || !options.abortEarly ? captured.tasks : []
+    return runAsyncTasks(tasks, concurrency, options, errors).then((valid): ParseResult<T> => {
+        if (options.maxErrors !== undefined) {
+            errors = errors.slice(0, options.maxErrors)
+        }
+        if (options.messages !== undefined) {
+            errors = localizeErrors(errors, options.messages, options.locale)
+        }
+        return parsed.valid && valid
+            ? { valid: true, value: parsed.value, errors }
+            : { valid: false, errors }
+    })
+}
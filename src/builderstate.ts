@@ -0,0 +1,72 @@
+import {
+    AsyncValidator,
+    ObjectPath,
+    Preprocessor,
+    UnknownKeyPolicy,
+    Validator
+} from './models'
+
+/**
+ * A single rule registered on a builder. Rules with a key apply to that
+ * property of the object, rules without one apply to the whole object.
+ */
+export interface BuilderRule {
+    key?: string
+    validator: Validator<any>
+    // The paths a withRuleAt rule reports its errors at, which tell derived validators what the rule is about
+    targets?: ObjectPath[]
+}
+
+export interface AsyncBuilderRule {
+    key?: string
+    validator: AsyncValidator<any> | Validator<any>
+}
+
+/**
+ * Everything a ValidatorBuilder knows about the validator it builds.
+ * Builders are immutable, each with* call creates a new state.
+ */
+export interface BuilderState {
+    // In the order they were declared, which is the order they run in
+    rules: BuilderRule[]
+    asyncRules: AsyncBuilderRule[]
+    // Left unset to follow the policy of the builder this one is nested in
+    unknownKeys?: UnknownKeyPolicy
+    // Preprocessors, the default and transforms only apply when parsing
+    preprocessors: Preprocessor[]
+    // A default given as a function is called for each parse
+    defaultValue?: { value: any }
+    transforms: ((value: any) => any)[]
+    // Whether undefined and null are accepted without running any rules
+    optional: boolean
+    nullable: boolean
+    // Whether properties are read through the prototype chain, e.g. getters of class instances
+    inheritedProperties: boolean
+    // Whether the value is a secret, which config loaders keep out of their errors
+    secret: boolean
+}
+
+/**
+ * The state behind each builder, so that builders for properties can be
+ * asked whether they may be missing, and object validators can be derived
+ * from one another
+ */
+export const builderStates = new WeakMap<Function, BuilderState>()
+
+let makeBuilder: ((state: BuilderState) => Function) | undefined
+
+/**
+ * Registers how builders are made from a state. Builders register it
+ * themselves, so that other modules can derive a builder with a changed
+ * state without the factory being part of the public API.
+ */
+export function withBuilderFactory(factory: (state: BuilderState) => Function) {
+    makeBuilder = factory
+}
+
+export function builderFromState(state: BuilderState): Function {
+    if (makeBuilder === undefined) {
+        throw new Error('No builder factory has been registered')
+    }
+    return makeBuilder(state)
+}
@@ -0,0 +1,57 @@
+import { Binary } from './models'
+
+// Checks for built-in objects which, unlike instanceof, also recognise objects
+// from other realms, such as iframes, workers and vm contexts, where each has
+// its own Date, Map and so on. Where they can, they call a built-in method on
+// the value, which only succeeds for genuine instances.
+
+function succeeds(fn: () => any): boolean {
+    try {
+        fn()
+        return true
+    } catch (e) {
+        return false
+    }
+}
+
+export function isDateObject(x: any): x is Date {
+    return typeof x === 'object' && x !== null && succeeds(() => Date.prototype.getTime.call(x))
+}
+
+export function isMapObject(x: any): x is Map<any, any> {
+    return typeof x === 'object' && x !== null && succeeds(() => Map.prototype.has.call(x, undefined))
+}
+
+export function isSetObject(x: any): x is Set<any> {
+    return typeof x === 'object' && x !== null && succeeds(() => Set.prototype.has.call(x, undefined))
+}
+
+// Getters of built-ins which throw for anything else. The source of RegExp.prototype itself is '(?:)', as it was a
+// RegExp before ES2015, so it's ruled out separately.
+const regExpSource = Object.getOwnPropertyDescriptor(RegExp.prototype, 'source')!.get!
+const arrayBufferByteLength = Object.getOwnPropertyDescriptor(ArrayBuffer.prototype, 'byteLength')!.get!
+
+export function isRegExpObject(x: any): x is RegExp {
+    return typeof x === 'object' && x !== null && x !== RegExp.prototype && succeeds(() => regExpSource.call(x))
+}
+
+// A Promise has no method that can be called on it without effects, e.g. then marks its rejection as handled. Node
+// can check for one without calling anything, and offers it without a require that bundlers would have to resolve.
+// Elsewhere only Promises from this realm are recognised.
+declare const process: any
+const nodeTypes: { isPromise(x: any): boolean } | undefined =
+    typeof process === 'object' && process !== null && typeof process.getBuiltinModule === 'function'
+        ? process.getBuiltinModule('util').types
+        : undefined
+
+export function isPromiseObject(x: any): x is Promise<unknown> {
+    return nodeTypes !== undefined ? nodeTypes.isPromise(x) : x instanceof Promise
+}
+
+export function isBinaryObject(x: any): x is Binary {
+    return ArrayBuffer.isView(x) || (typeof x === 'object' && x !== null && succeeds(() => arrayBufferByteLength.call(x)))
+}
+
+export function byteLengthOf(x: any): number | undefined {
+    return isBinaryObject(x) ? x.byteLength : undefined
+}
@@ -0,0 +1,128 @@
+import {
+    ErrorMessageBuilder,
+    Preprocessor,
+    ValidatorBuilder
+} from './models'
+import { isBoolean, isDate, isNumber, isOneOf, isString, isURL } from './rules'
+import { validatorFor } from './validatorfor'
+
+const TRUE_STRINGS = ['true', '1', 'yes', 'on']
+const FALSE_STRINGS = ['false', '0', 'no', 'off']
+
+const primitiveToString: Preprocessor = (x: any) => typeof x === 'number' || typeof x === 'boolean' ? String(x) : x
+
+const DECIMAL_PATTERN = /^\s*[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i
+
+/**
+ * Converts decimal numeric strings like '470' or ' 4.7e2 ' to numbers.
+ * Other strings are left alone, including empty ones, hexadecimal ones like
+ * '0x10', 'Infinity' and numbers too big to be finite.
+ */
+export const toNumber: Preprocessor = (x: any) => {
+    if (typeof x !== 'string' || !DECIMAL_PATTERN.test(x)) {
+        return x
+    }
+    const converted = Number(x)
+    return isFinite(converted) ? converted : x
+}
+
+/**
+ * Converts 'true', 'yes', 'on' and '1' to true and 'false', 'no', 'off' and
+ * '0' to false, ignoring case and surrounding whitespace. The numbers 1 and 0
+ * are converted too.
+ */
+export const toBoolean: Preprocessor = (x: any) => {
+    if (x === 1 || x === 0) {
+        return x === 1
+    }
+    if (typeof x !== 'string') {
+        return x
+    }
+    const normalized = x.trim().toLowerCase()
+    if (TRUE_STRINGS.indexOf(normalized) !== -1) {
+        return true
+    }
+    return FALSE_STRINGS.indexOf(normalized) !== -1 ? false : x
+}
+
+/**
+ * Converts strings and timestamps to Dates. Strings that don't describe a
+ * date become an invalid Date, which isDate reports.
+ */
+export const toDate: Preprocessor = (x: any) => {
+    if (typeof x === 'string' && x.trim() !== '') {
+        return new Date(x)
+    }
+    return typeof x === 'number' ? new Date(x) : x
+}
+
+export const trim: Preprocessor = (x: any) => typeof x === 'string' ? x.trim() : x
+
+export const toLowerCase: Preprocessor = (x: any) => typeof x === 'string' ? x.toLowerCase() : x
+
+export const toUpperCase: Preprocessor = (x: any) => typeof x === 'string' ? x.toUpperCase() : x
+
+/**
+ * Checks for a number, converting numeric strings when parsing
+ *
+ * ```
+ * Coerce.number().parse('470')
+ * // 470
+ * ```
+ */
+export function number(errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<number> {
+    return validatorFor<number>().withRule(isNumber(errorMessageBuilder)).preprocess(toNumber)
+}
+
+/**
+ * Checks for a boolean, converting strings like 'true' and 'off' when parsing
+ */
+export function boolean(errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<boolean> {
+    return validatorFor<boolean>().withRule(isBoolean(errorMessageBuilder)).preprocess(toBoolean)
+}
+
+/**
+ * Checks for a valid Date, converting date strings and timestamps when parsing
+ */
+export function date(errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<Date> {
+    return validatorFor<Date>().withRule(isDate(errorMessageBuilder)).preprocess(toDate)
+}
+
+/**
+ * Checks for a string, converting numbers and booleans when parsing. Chain
+ * further preprocessors to normalize the string, e.g.
+ *
+ * ```
+ * Coerce.string().preprocess(Coerce.trim).preprocess(Coerce.toLowerCase)
+ * ```
+ */
+export function string(errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<string> {
+    return validatorFor<string>().withRule(isString(errorMessageBuilder)).preprocess(primitiveToString)
+}
+
+/**
+ * Checks for one of the given values, converting strings which spell one of
+ * them, e.g. '2' for 2, when parsing
+ *
+ * ```
+ * Coerce.oneOf([1, 2, 3] as const).parse('2')
+ * // 2
+ * ```
+ */
+export function oneOf<T extends string | number | boolean>(values: readonly T[], errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<T> {
+    const toOption: Preprocessor = (x: any) => {
+        if (typeof x !== 'string') {
+            return x
+        }
+        const matching = values.filter(value => String(value) === x.trim())
+        return matching.length > 0 ? matching[0] : x
+    }
+    return validatorFor<T>().withRule(isOneOf(values, errorMessageBuilder)).preprocess(toOption)
+}
+
+/**
+ * Checks for a URL string, trimming surrounding whitespace when parsing
+ */
+export function url(errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<string> {
+    return validatorFor<string>().withRule(isURL(errorMessageBuilder)).preprocess(trim)
+}
@@ -0,0 +1,344 @@
+import {
+    ErrorMessageBuilder,
+    ObjectPath,
+    ValidationError,
+    Validator,
+    ValidatorBuilder
+} from './models'
+import { joinObjectPaths } from './paths'
+import { Parsed, fromParser, parseWith, shouldStop } from './parsing'
+import { validatorFor } from './validatorfor'
+import { metadataOf, withMetadata } from './metadata'
+import { withCompiler } from './compile'
+import { isMapObject, isSetObject } from './builtins'
+
+/**
+ * Constraints on the size of a collection. For arrays and tuples this is
+ * the length, for Maps and Sets the size and for records the number of keys.
+ */
+export interface CollectionOptions {
+    minLength?: number
+    maxLength?: number
+
+    /**
+     * Overrides the error message emitted when the value is not a collection
+     * of the right kind at all
+     */
+    errorMessageBuilder?: ErrorMessageBuilder
+}
+
+export interface ArrayOptions<T> extends CollectionOptions {
+    /**
+     * Requires that every element of the array is distinct. Pass a function
+     * to compare elements by a key rather than by identity, e.g.
+     * `unique: (engine) => engine.serialNumber`
+     */
+    unique?: boolean | ((element: T) => any)
+}
+
+type CollectionKind = 'array' | 'tuple' | 'record' | 'map' | 'set'
+
+function pushError(errorCollector: ValidationError[] | undefined, error: ValidationError) {
+    if (errorCollector !== undefined) {
+        errorCollector.push(error)
+    }
+}
+
+function typeError(kind: CollectionKind, emb: ErrorMessageBuilder, x: any, path?: ObjectPath): ValidationError {
+    return { path, error: emb(x), code: `${kind}.type`, params: { actualType: x === null ? 'null' : typeof x }, value: x }
+}
+
+function checkSize(kind: CollectionKind, x: any, size: number, options: CollectionOptions, errorCollector?: ValidationError[], path?: ObjectPath): boolean {
+    if (options.minLength !== undefined && size < options.minLength) {
+        pushError(errorCollector, {
+            path,
+            error: `Expected at least ${options.minLength} elements, but got ${size}`,
+            code: `${kind}.tooShort`,
+            params: { min: options.minLength, actual: size },
+            value: x
+        })
+        return false
+    }
+    if (options.maxLength !== undefined && size > options.maxLength) {
+        pushError(errorCollector, {
+            path,
+            error: `Expected at most ${options.maxLength} elements, but got ${size}`,
+            code: `${kind}.tooLong`,
+            params: { max: options.maxLength, actual: size },
+            value: x
+        })
+        return false
+    }
+    return true
+}
+
+// Whether a collection's size passes its options, without reporting anything
+function sizeAllowed(size: number, options: CollectionOptions): boolean {
+    return (options.minLength === undefined || size >= options.minLength)
+        && (options.maxLength === undefined || size <= options.maxLength)
+}
+
+function isPlainRecord(x: any): boolean {
+    return typeof x === 'object' && x !== null && !Array.isArray(x) && !isMapObject(x) && !isSetObject(x)
+}
+
+/**
+ * Builds a validator for arrays whose elements all pass `elementValidator`.
+ * Errors for individual elements are reported at indexed paths, so a bad
+ * engine type might be reported at 'engines[3].type'
+ */
+export function arrayOf<T>(elementValidator: Validator<T>, options: ArrayOptions<T> = {}): ValidatorBuilder<T[]> {
+    const emb: ErrorMessageBuilder = options.errorMessageBuilder || ((x) => `Expected an array, but got type ${typeof x}`)
+    const keyOf = typeof options.unique === 'function' ? options.unique : (x: T) => x
+
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T[]> => {
+        if (!Array.isArray(x)) {
+            pushError(errorCollector, typeError('array', emb, x, path))
+            return { valid: false, value: x }
+        }
+        let valid = checkSize('array', x, x.length, options, errorCollector, path)
+        const seen = new Map<any, number>()
+        const elements: T[] = []
+        for (let index = 0; index < x.length && !shouldStop(valid, errorCollector); index++) {
+            const element = x[index]
+            const elementPath = joinObjectPaths(path, index)
+            const parsed = parseWith(elementValidator, element, errorCollector, elementPath)
+            if (!parsed.valid) {
+                valid = false
+            }
+            if (options.unique) {
+                const key = keyOf(element)
+                const firstIndex = seen.get(key)
+                if (firstIndex !== undefined) {
+                    pushError(errorCollector, {
+                        path: elementPath,
+                        error: `Duplicate of the element at index ${firstIndex}`,
+                        code: 'array.duplicate',
+                        params: { firstIndex },
+                        value: element
+                    })
+                    valid = false
+                } else {
+                    seen.set(key, index)
+                }
+            }
+            elements.push(parsed.value)
+        }
+        return { valid, value: elements }
+    })
+    withCompiler(validator, (context) => {
+        const elementCheck = context.compile(elementValidator)
+        return (x: any) => {
+            if (!Array.isArray(x) || !sizeAllowed(x.length, options)) {
+                return false
+            }
+            const seen = options.unique ? new Set<any>() : undefined
+            for (let index = 0; index < x.length; index++) {
+                if (!elementCheck(x[index])) {
+                    return false
+                }
+                if (seen !== undefined) {
+                    const key = keyOf(x[index])
+                    if (seen.has(key)) {
+                        return false
+                    }
+                    seen.add(key)
+                }
+            }
+            return true
+        }
+    })
+    return validatorFor<T[]>().withRule(withMetadata(validator, () => ({
+        kind: 'array',
+        element: metadataOf(elementValidator),
+        minLength: options.minLength,
+        maxLength: options.maxLength,
+        unique: options.unique ? (typeof options.unique === 'function' ? 'key' : 'identity') : undefined
+    })))
+}
+
+/**
+ * Builds a validator for fixed length arrays, checking each position
+ * against the corresponding validator
+ *
+ * ```
+ * const isCoordinate = tupleOf(isNumber(), isNumber(), isString())
+ * // ValidatorBuilder<[number, number, string]>
+ * ```
+ */
+export function tupleOf<T extends unknown[]>(...elementValidators: { [K in keyof T]: Validator<T[K]> }): ValidatorBuilder<T> {
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T> => {
+        if (!Array.isArray(x)) {
+            pushError(errorCollector, typeError('tuple', (x) => `Expected an array, but got type ${typeof x}`, x, path))
+            return { valid: false, value: x }
+        }
+        if (x.length !== elementValidators.length) {
+            pushError(errorCollector, {
+                path,
+                error: `Expected exactly ${elementValidators.length} elements, but got ${x.length}`,
+                code: 'tuple.length',
+                params: { length: elementValidators.length, actual: x.length },
+                value: x
+            })
+            return { valid: false, value: x as T }
+        }
+        let valid = true
+        const elements: unknown[] = []
+        for (let index = 0; index < elementValidators.length && !shouldStop(valid, errorCollector); index++) {
+            const parsed = parseWith(elementValidators[index] as Validator<unknown>, x[index], errorCollector, joinObjectPaths(path, index))
+            if (!parsed.valid) {
+                valid = false
+            }
+            elements.push(parsed.value)
+        }
+        return { valid, value: elements as T }
+    })
+    withCompiler(validator, (context) => {
+        const elementChecks = elementValidators.map((elementValidator: Validator<unknown>) => context.compile(elementValidator))
+        return (x: any) => Array.isArray(x)
+            && x.length === elementChecks.length
+            && elementChecks.every((check, index) => check(x[index]))
+    })
+    return validatorFor<T>().withRule(withMetadata(validator, () => ({
+        kind: 'tuple',
+        elements: elementValidators.map((elementValidator: Validator<unknown>) => metadataOf(elementValidator))
+    })))
+}
+
+/**
+ * Builds a validator for plain objects used as dictionaries, checking every
+ * own property against `valueValidator`. Errors are reported at 'path.key'.
+ * A `keyValidator` may also be passed to restrict which keys are allowed.
+ */
+export function recordOf<T, K extends string = string>(
+    valueValidator: Validator<T>,
+    keyValidator?: Validator<K>,
+    options: CollectionOptions = {}
+): ValidatorBuilder<Record<K, T>> {
+    const emb: ErrorMessageBuilder = options.errorMessageBuilder || ((x) => `Expected an object, but got ${x === null ? 'null' : `type ${typeof x}`}`)
+
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<Record<K, T>> => {
+        if (!isPlainRecord(x)) {
+            pushError(errorCollector, typeError('record', emb, x, path))
+            return { valid: false, value: x }
+        }
+        const keys = Object.keys(x)
+        let valid = checkSize('record', x, keys.length, options, errorCollector, path)
+        const record: { [key: string]: any } = {}
+        keys.forEach(key => {
+            if (shouldStop(valid, errorCollector)) {
+                return
+            }
+            const valuePath = joinObjectPaths(path, key)
+            if (keyValidator !== undefined && !keyValidator(key, errorCollector, valuePath)) {
+                valid = false
+            }
+            const parsed = parseWith(valueValidator, x[key], errorCollector, valuePath)
+            if (!parsed.valid) {
+                valid = false
+            }
+            // Defined rather than assigned, so that a '__proto__' key from JSON.parse stays an ordinary property
+            Object.defineProperty(record, key, { value: parsed.value, enumerable: true, writable: true, configurable: true })
+        })
+        return { valid, value: record as Record<K, T> }
+    })
+    withCompiler(validator, (context) => {
+        const keyCheck = keyValidator !== undefined ? context.compile(keyValidator) : undefined
+        const valueCheck = context.compile(valueValidator)
+        return (x: any) => {
+            if (!isPlainRecord(x)) {
+                return false
+            }
+            const keys = Object.keys(x)
+            return sizeAllowed(keys.length, options)
+                && keys.every(key => (keyCheck === undefined || keyCheck(key)) && valueCheck(x[key]))
+        }
+    })
+    return validatorFor<Record<K, T>>().withRule(withMetadata(validator, () => ({
+        kind: 'record',
+        key: keyValidator !== undefined ? metadataOf(keyValidator) : undefined,
+        value: metadataOf(valueValidator),
+        minLength: options.minLength,
+        maxLength: options.maxLength
+    })))
+}
+
+/**
+ * Builds a validator for Maps. Entries with string or number keys are
+ * reported at 'path.key' or 'path[key]' respectively; entries with any
+ * other kind of key are reported by their position in iteration order.
+ */
+export function mapOf<K, V>(keyValidator: Validator<K>, valueValidator: Validator<V>, options: CollectionOptions = {}): ValidatorBuilder<Map<K, V>> {
+    const emb: ErrorMessageBuilder = options.errorMessageBuilder || ((x) => `Expected a Map, but got ${x === null ? 'null' : `type ${typeof x}`}`)
+
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<Map<K, V>> => {
+        if (!isMapObject(x)) {
+            pushError(errorCollector, typeError('map', emb, x, path))
+            return { valid: false, value: x }
+        }
+        let valid = checkSize('map', x, x.size, options, errorCollector, path)
+        const map = new Map<K, V>()
+        let index = 0
+        x.forEach((value: any, key: any) => {
+            if (shouldStop(valid, errorCollector)) {
+                return
+            }
+            const entryPath = typeof key === 'string' || typeof key === 'number'
+                ? joinObjectPaths(path, key)
+                : joinObjectPaths(path, index)
+            if (!keyValidator(key, errorCollector, entryPath)) {
+                valid = false
+            }
+            const parsed = parseWith(valueValidator, value, errorCollector, entryPath)
+            if (!parsed.valid) {
+                valid = false
+            }
+            map.set(key, parsed.value)
+            index++
+        })
+        return { valid, value: map }
+    })
+    return validatorFor<Map<K, V>>().withRule(withMetadata(validator, () => ({
+        kind: 'map',
+        key: metadataOf(keyValidator),
+        value: metadataOf(valueValidator),
+        minLength: options.minLength,
+        maxLength: options.maxLength
+    })))
+}
+
+/**
+ * Builds a validator for Sets. Errors are reported by each element's
+ * position in iteration order, e.g. 'tags[2]'
+ */
+export function setOf<T>(elementValidator: Validator<T>, options: CollectionOptions = {}): ValidatorBuilder<Set<T>> {
+    const emb: ErrorMessageBuilder = options.errorMessageBuilder || ((x) => `Expected a Set, but got ${x === null ? 'null' : `type ${typeof x}`}`)
+
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<Set<T>> => {
+        if (!isSetObject(x)) {
+            pushError(errorCollector, typeError('set', emb, x, path))
+            return { valid: false, value: x }
+        }
+        let valid = checkSize('set', x, x.size, options, errorCollector, path)
+        const set = new Set<T>()
+        let index = 0
+        x.forEach((element: any) => {
+            if (shouldStop(valid, errorCollector)) {
+                return
+            }
+            const parsed = parseWith(elementValidator, element, errorCollector, joinObjectPaths(path, index))
+            if (!parsed.valid) {
+                valid = false
+            }
+            set.add(parsed.value)
+            index++
+        })
+        return { valid, value: set }
+    })
+    return validatorFor<Set<T>>().withRule(withMetadata(validator, () => ({
+        kind: 'set',
+        element: metadataOf(elementValidator),
+        minLength: options.minLength,
+        maxLength: options.maxLength
+    })))
+}
@@ -0,0 +1,243 @@
+import {
+    Check,
+    Infer,
+    ObjectPath,
+    ValidationError,
+    Validator,
+    ValidatorBuilder
+} from './models'
+import { joinObjectPaths } from './paths'
+import { Parsed, fromParser, parseWith, shouldStop, whileInheritingUnknownKeys } from './parsing'
+import { asyncRequiredError, captureAsyncTasks, scheduleAsyncTasks } from './async'
+import { validatorFor } from './validatorfor'
+import { ValidatorMetadata, metadataOf, withMetadata } from './metadata'
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends ((x: infer I) => void) ? I : never
+
+/**
+ * Controls how a union reports errors when no branch matches
+ *
+ * - 'closest' reports only the errors of the branch that came closest to
+ *   matching, i.e. the one that failed deepest in the object, with the fewest errors
+ * - 'grouped' reports a single error at the union's path, with the errors of
+ *   every branch attached as `branches`
+ */
+export type UnionErrorMode = 'closest' | 'grouped'
+
+export interface UnionOptions {
+    errors?: UnionErrorMode
+}
+
+function pushError(errorCollector: ValidationError[] | undefined, error: ValidationError) {
+    if (errorCollector !== undefined) {
+        errorCollector.push(error)
+    }
+}
+
+function isCloser(errors: ValidationError[], than: ValidationError[], path: ObjectPath): boolean {
+    const rootErrors = errors.filter(error => (error.path || '') === path).length
+    const thanRootErrors = than.filter(error => (error.path || '') === path).length
+    if (rootErrors !== thanRootErrors) {
+        return rootErrors < thanRootErrors
+    }
+    return errors.length < than.length
+}
+
+function oneOfWithOptions<V extends Validator<any>[]>(options: UnionOptions, validators: V): ValidatorBuilder<Infer<V[number]>> {
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<Infer<V[number]>> => {
+        const branches: ValidationError[][] = []
+        for (let i = 0; i < validators.length; i++) {
+            const branchErrors: ValidationError[] = []
+            const captured = captureAsyncTasks(() => parseWith(validators[i], x, branchErrors, path))
+            if (captured.result.valid) {
+                // Only the matching branch's asynchronous rules are run, and they report to our collector
+                const tasks = captured.tasks.map(task => task.errorCollector === branchErrors ? { ...task, errorCollector } : task)
+                if (tasks.length > 0 && !scheduleAsyncTasks(tasks)) {
+                    pushError(errorCollector, asyncRequiredError(path))
+                    return { valid: false, value: x }
+                }
+                return captured.result
+            }
+            branches.push(branchErrors)
+        }
+
+        if (options.errors === 'grouped') {
+            pushError(errorCollector, {
+                path,
+                error: `Expected value to match one of ${validators.length} alternatives`,
+                code: 'union.noMatch',
+                params: { alternatives: validators.length },
+                value: x,
+                branches
+            })
+        } else if (errorCollector !== undefined && branches.length > 0) {
+            let closest = branches[0]
+            branches.forEach(branch => {
+                if (isCloser(branch, closest, path || '')) {
+                    closest = branch
+                }
+            })
+            closest.forEach(error => errorCollector.push(error))
+        }
+        return { valid: false, value: x }
+    })
+    return validatorFor<Infer<V[number]>>().withRule(withMetadata(validator, () => ({
+        kind: 'oneOf',
+        options: validators.map(option => metadataOf(option))
+    })))
+}
+
+/**
+ * Builds a validator for a union type, accepting any value that passes at
+ * least one of the validators. Validators are tried in order, and the first
+ * to pass is used.
+ *
+ * ```
+ * const engineValidator = oneOf(fusionEngineValidator, ionEngineValidator)
+ * // ValidatorBuilder<FusionEngine | IonEngine>
+ * ```
+ *
+ * By default, a failing value gets the errors of the closest matching branch.
+ * Use oneOfWith({ errors: 'grouped' }, ...) to see the errors of every branch.
+ */
+export function oneOf<V extends Validator<any>[]>(...validators: V): ValidatorBuilder<Infer<V[number]>> {
+    return oneOfWithOptions({}, validators)
+}
+
+/**
+ * oneOf, with options controlling how errors are reported
+ */
+export function oneOfWith<V extends Validator<any>[]>(options: UnionOptions, ...validators: V): ValidatorBuilder<Infer<V[number]>> {
+    return oneOfWithOptions(options, validators)
+}
+
+/**
+ * Builds a validator for an intersection type, accepting values that pass
+ * every one of the validators. Errors from all of them are reported.
+ *
+ * ```
+ * const shipValidator = allOf(bigObjectValidator, spaceshipValidator)
+ * // ValidatorBuilder<BigObject & Spaceship>
+ * ```
+ */
+export function allOf<V extends Validator<any>[]>(...validators: V): ValidatorBuilder<UnionToIntersection<Infer<V[number]>>> {
+    type T = UnionToIntersection<Infer<V[number]>>
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T> => {
+        let valid = true
+        const changed: any[] = []
+        validators.forEach(validator => {
+            if (shouldStop(valid, errorCollector)) {
+                return
+            }
+            // Each validator may only know some of the properties, so an unknown key policy from outside can't apply
+            const parsed = whileInheritingUnknownKeys('passthrough', () => parseWith(validator, x, errorCollector, path))
+            valid = parsed.valid && valid
+            if (parsed.value !== x) {
+                changed.push(parsed.value)
+            }
+        })
+        if (changed.length === 0) {
+            return { valid, value: x }
+        }
+        // Values produced by each validator are merged, so that e.g. stripping
+        // unknown keys keeps the keys known to any of the validators
+        const allObjects = changed.every(value => typeof value === 'object' && value !== null && !Array.isArray(value))
+        const value = allObjects ? changed.reduce((merged, next) => ({ ...merged, ...next }), {}) : changed[changed.length - 1]
+        return { valid, value }
+    })
+    return validatorFor<T>().withRule(withMetadata(validator, () => ({
+        kind: 'allOf',
+        validators: validators.map(validator => metadataOf(validator))
+    })))
+}
+
+/**
+ * The union of types described by the mapping passed to discriminated,
+ * with each member's discriminator narrowed to its tag
+ */
+export type DiscriminatedUnion<K extends string, M extends { [tag: string]: Validator<any> }> = {
+    [Tag in keyof M]: Infer<M[Tag]> & { [P in K]: Tag }
+}[keyof M]
+
+/**
+ * Builds a validator for a discriminated union, using the value of the
+ * property `key` to pick which validator to run. Only the chosen validator's
+ * errors are reported, so failures are much clearer than with oneOf.
+ *
+ * ```
+ * const engineValidator = discriminated('type', {
+ *     fusion: fusionEngineValidator,
+ *     ion: ionEngineValidator
+ * })
+ * // ValidatorBuilder<(FusionEngine & { type: 'fusion' }) | (IonEngine & { type: 'ion' })>
+ * ```
+ */
+export function discriminated<K extends string, M extends { [tag: string]: Validator<any> }>(key: K, mapping: M): ValidatorBuilder<DiscriminatedUnion<K, M>> {
+    const tags = Object.keys(mapping)
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<DiscriminatedUnion<K, M>> => {
+        if (typeof x !== 'object' || x === null) {
+            pushError(errorCollector, {
+                path,
+                error: `Expected an object, but got ${x === null ? 'null' : `type ${typeof x}`}`,
+                code: 'object.type',
+                params: { actualType: x === null ? 'null' : typeof x },
+                value: x
+            })
+            return { valid: false, value: x }
+        }
+        const tag = x[key]
+        if (typeof tag !== 'string' || !mapping.hasOwnProperty(tag)) {
+            pushError(errorCollector, {
+                path: joinObjectPaths(path, key),
+                error: `Expected one of ${tags.map(t => `'${t}'`).join(', ')}, but got ${typeof tag === 'string' ? `'${tag}'` : String(tag)}`,
+                code: 'union.invalidDiscriminator',
+                params: { options: tags },
+                value: tag
+            })
+            return { valid: false, value: x }
+        }
+        // The chosen validator usually leaves the key to discriminated, so an unknown key policy from outside can't apply
+        return whileInheritingUnknownKeys('passthrough', () => parseWith(mapping[tag], x, errorCollector, path))
+    })
+    return validatorFor<DiscriminatedUnion<K, M>>().withRule(withMetadata(validator, () => {
+        const described: { [tag: string]: ValidatorMetadata } = {}
+        tags.forEach(tag => {
+            described[tag] = metadataOf(mapping[tag])
+        })
+        return { kind: 'discriminated', key, mapping: described }
+    }))
+}
+
+/**
+ * Builds a validator which checks values with `thenValidator` when
+ * `predicate` holds for them, and with `elseValidator` otherwise. Without an
+ * elseValidator, values for which the predicate doesn't hold are accepted.
+ * The predicate may be a plain check or another validator.
+ *
+ * Errors from the chosen validator are reported at their own paths, so
+ * making a field required only under some condition looks like
+ *
+ * ```
+ * const engineValidator = validatorFor<SpaceshipEngine>()
+ *     .withRule(when(
+ *         x => x.type === 'fusion',
+ *         validatorFor<SpaceshipEngine>().withRuleFor('fuel', isString())
+ *     ))
+ * ```
+ */
+export function when<T>(predicate: Check, thenValidator: Validator<T>, elseValidator?: Validator<T>): ValidatorBuilder<T> {
+    // The predicate and the validators usually check just the properties the condition is about, which an unknown key
+    // policy from outside would report the rest of
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T> => whileInheritingUnknownKeys('passthrough', () => {
+        if (predicate(x)) {
+            return parseWith(thenValidator, x, errorCollector, path)
+        }
+        return elseValidator !== undefined ? parseWith(elseValidator, x, errorCollector, path) : { valid: true, value: x }
+    }))
+    return validatorFor<T>().withRule(withMetadata(validator, () => ({
+        kind: 'when',
+        predicate: metadataOf(predicate),
+        then: metadataOf(thenValidator),
+        else: elseValidator !== undefined ? metadataOf(elseValidator) : undefined
+    })))
+}
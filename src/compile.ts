@@ -0,0 +1,105 @@
+import {
+    Check,
+    ObjectPath,
+    UnknownKeyPolicy,
+    ValidationError,
+    Validator
+} from './models'
+import { Parsed, fromParser, inheritedUnknownKeys, isParsing, parseWith, whileInheritingUnknownKeys } from './parsing'
+import { metadataOf, withMetadata } from './metadata'
+
+export interface CompileOptions {
+    /**
+     * Builds the checks for ValidatorBuilders as generated code, with every
+     * rule unrolled into a single function body. This is usually faster, but
+     * relies on `new Function`, which a Content Security Policy may forbid.
+     */
+    generateCode?: boolean
+}
+
+/**
+ * Passed to each Compiler, so that it can compile the validators it's made of
+ */
+export interface CompileContext {
+    // Pass a policy to have nested builders which don't set their own follow it, as they do when validating
+    compile(validator: Validator<any>, unknownKeys?: UnknownKeyPolicy): Check
+    generateCode: boolean
+    // The unknown key policy inherited from the enclosing builder, if any
+    unknownKeys?: UnknownKeyPolicy
+}
+
+/**
+ * Flattens a validator into a Check equivalent to calling it as a type guard
+ */
+export type Compiler = (context: CompileContext) => Check
+
+const compilers = new WeakMap<Function, Compiler>()
+
+/**
+ * Registers how a validator can be compiled. Validators without a Compiler
+ * are called as they are by compiled validators.
+ */
+export function withCompiler<V extends Function>(validator: V, compiler: Compiler): V {
+    compilers.set(validator, compiler)
+    return validator
+}
+
+// Checks are kept per inherited unknown key policy, as the same builder may be nested in builders with different ones
+type CompiledChecks = Map<UnknownKeyPolicy | undefined, Map<Function, Check>>
+
+function compileCheck(validator: Validator<any>, options: CompileOptions, compiled: CompiledChecks, unknownKeys?: UnknownKeyPolicy): Check {
+    let checks = compiled.get(unknownKeys)
+    if (checks === undefined) {
+        checks = new Map()
+        compiled.set(unknownKeys, checks)
+    }
+    const existing = checks.get(validator)
+    if (existing !== undefined) {
+        return existing
+    }
+    const compiler = compilers.get(validator)
+    const check = compiler !== undefined
+        ? compiler({
+            compile: (child, policy) => compileCheck(child, options, compiled, policy !== undefined ? policy : unknownKeys),
+            generateCode: !!options.generateCode,
+            unknownKeys
+        })
+        : (x: any) => !!whileInheritingUnknownKeys(unknownKeys, () => validator(x))
+    checks.set(validator, check)
+    return check
+}
+
+/**
+ * Flattens a validator, including the validators it's built from, into a
+ * single function which checks values without building paths, error lists
+ * or intermediate objects. This pays off for validators that check a lot of
+ * values, e.g. every message read from a queue.
+ *
+ * ```
+ * const isSpaceship = compile(spaceshipValidator, { generateCode: true })
+ * ```
+ *
+ * The compiled validator accepts exactly the values the original does. When
+ * a value is invalid and errors are being collected, or when parsing, the
+ * original validator is used, so the errors and parsed values are the same too.
+ */
+export function compile<T>(validator: Validator<T>, options: CompileOptions = {}): Validator<T> {
+    const checks: CompiledChecks = new Map()
+    // Compiled up front for values outside of any builder, which is how compiled validators are usually called
+    compileCheck(validator, options, checks)
+    const compiled = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T> => {
+        if (isParsing()) {
+            return parseWith(validator, x, errorCollector, path)
+        }
+        // Nested in a builder, the check must follow the unknown key policy it passes down
+        if (compileCheck(validator, options, checks, inheritedUnknownKeys())(x)) {
+            return { valid: true, value: x }
+        }
+        if (errorCollector === undefined) {
+            return { valid: false, value: x }
+        }
+        return parseWith(validator, x, errorCollector, path)
+    })
+    withCompiler(compiled, (context) => compileCheck(validator, options, checks, context.unknownKeys))
+    return withMetadata(compiled, () => metadataOf(validator))
+}
@@ -0,0 +1,182 @@
+import {
+    ParseResult,
+    ValidationError,
+    Validator
+} from './models'
+import { InferShapeOutput, Shape, objectOf } from './objects'
+import { ValidationException } from './exceptions'
+import { builderFromState, builderStates } from './builderstate'
+
+/**
+ * Where configuration is read from: an object of variables such as
+ * `process.env`, or the contents of a .env file
+ */
+export type ConfigSource = string | { [name: string]: string | undefined }
+
+/**
+ * The configuration described by a Shape, which can't be changed once loaded
+ */
+export type Config<S extends Shape> = Readonly<InferShapeOutput<S>>
+
+export interface ConfigLoader<S extends Shape> {
+    /**
+     * Reads and checks the configuration, returning it frozen. Throws a
+     * ValidationException listing every missing or invalid variable.
+     */
+    load(source: ConfigSource): Config<S>
+
+    /**
+     * Like load, but returns the errors rather than throwing them
+     */
+    safeLoad(source: ConfigSource): ParseResult<Config<S>>
+}
+
+export const REDACTED = '[REDACTED]'
+
+// Secrets which aren't builders, and so can't be derived from
+const secrets = new WeakSet<Function>()
+
+/**
+ * Marks the validator for a variable as holding a secret, e.g. an API key.
+ * Errors reported for its value keep their path and code, but their message
+ * is replaced with a fixed one and their value with '[REDACTED]', and their
+ * params are left out, as any of these may give the secret away. Builders
+ * derived from the validator, e.g. with `default` or `transform`, and
+ * builders checking the whole value with it, hold a secret too.
+ */
+export function secret<V extends Validator<any>>(validator: V): V {
+    const state = builderStates.get(validator)
+    if (state === undefined) {
+        secrets.add(validator)
+        return validator
+    }
+    return builderFromState({ ...state, secret: true }) as V
+}
+
+function isSecret(validator: Validator<any>): boolean {
+    const state = builderStates.get(validator)
+    if (state === undefined) {
+        return secrets.has(validator)
+    }
+    return state.secret || state.rules.some(rule => rule.key === undefined && isSecret(rule.validator))
+}
+
+const LINE_PATTERN = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)?\s*$/
+
+/**
+ * Parses the contents of a .env file into variables. Supports comments,
+ * `export` prefixes, single quoted values, which are taken literally, and
+ * double quoted values, in which \n is a newline, and \" and \\ are a
+ * quote and a backslash.
+ *
+ * ```
+ * parseDotenv('# Server\nPORT=8080\nGREETING="Hello\\nWorld"')
+ * // { PORT: '8080', GREETING: 'Hello\nWorld' }
+ * ```
+ */
+export function parseDotenv(text: string): { [name: string]: string } {
+    const variables: { [name: string]: string } = {}
+    text.split(/\r?\n/).forEach(line => {
+        const match = LINE_PATTERN.exec(line)
+        if (line.trim().charAt(0) === '#' || match === null) {
+            return
+        }
+        const raw = (match[2] || '').trim()
+        const quote = raw.charAt(0)
+        if ((quote === '"' || quote === "'") && raw.lastIndexOf(quote) > 0) {
+            const quoted = raw.slice(1, raw.lastIndexOf(quote))
+            // In a single pass, so that \\n is an escaped backslash followed by n, rather than a backslash and a newline
+            variables[match[1]] = quote === '"' ? quoted.replace(/\\(["\\n])/g, (escape, char) => char === 'n' ? '\n' : char) : quoted
+        } else {
+            // Unquoted values end at a comment
+            variables[match[1]] = raw.replace(/\s+#.*$/, '')
+        }
+    })
+    return variables
+}
+
+// Nothing is kept that was derived from the value, as it may have been changed, e.g. trimmed, before being reported
+function redact(error: ValidationError): ValidationError {
+    const redacted: ValidationError = { path: error.path, error: `Expected a valid secret, but got ${REDACTED}`, value: REDACTED }
+    if (error.code !== undefined) {
+        redacted.code = error.code
+    }
+    return redacted
+}
+
+// The variable an error was reported for, which may be nested inside it for validators built of others
+function variableAt(names: string[], path: string): string | undefined {
+    return names.filter(name => path === name || path.indexOf(`${name}.`) === 0 || path.indexOf(`${name}[`) === 0)[0]
+}
+
+// Freezes a copy of the config, including arrays and plain objects produced by transforms or given as defaults, which
+// the caller may still be using. Other objects, e.g. URLs, wouldn't work as copies, so are kept as they are.
+function frozenCopy<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return Object.freeze(value.map(frozenCopy)) as any
+    }
+    if (typeof value === 'object' && value !== null && [Object.prototype, null].indexOf(Object.getPrototypeOf(value)) !== -1) {
+        const copy: { [key: string]: any } = {}
+        Object.keys(value).forEach(key => {
+            Object.defineProperty(copy, key, { value: frozenCopy((value as any)[key]), enumerable: true })
+        })
+        return Object.freeze(copy) as any
+    }
+    return value
+}
+
+/**
+ * Builds a loader for configuration, usually environment variables, from a
+ * shape literal like objectOf. Variables are strings, so use the validators
+ * in Coerce to convert them, and `default` for optional variables.
+ *
+ * ```
+ * const config = configFor({
+ *     PORT: Coerce.number().default(8080),
+ *     DEBUG: Coerce.boolean().default(false),
+ *     LOG_LEVEL: Coerce.oneOf(['debug', 'info', 'warn'] as const).default('info'),
+ *     DATABASE_URL: Coerce.url(),
+ *     API_KEY: secret(Rules.isString())
+ * }).load(process.env)
+ * // { PORT: number, DEBUG: boolean, LOG_LEVEL: 'debug' | 'info' | 'warn', ... }
+ * ```
+ *
+ * Only the variables in the shape are read. Variables set to an empty
+ * string are treated as missing, so that their defaults apply. Loading is
+ * synchronous, so validators with asynchronous rules always fail to load.
+ */
+export function configFor<S extends Shape>(shape: S): ConfigLoader<S> {
+    const validator = objectOf(shape)
+
+    const safeLoad = (source: ConfigSource): ParseResult<Config<S>> => {
+        const variables = typeof source === 'string' ? parseDotenv(source) : source
+        const input: { [name: string]: string } = {}
+        Object.keys(shape).forEach(name => {
+            const value = variables[name]
+            if (value !== undefined && value !== '') {
+                input[name] = value
+            }
+        })
+
+        const result = validator.safeParse(input)
+        const errors = result.errors.map(error => {
+            const name = variableAt(Object.keys(shape), error.path || '')
+            // Secrets that weren't given can only be reported missing, which gives nothing away
+            return name !== undefined && isSecret(shape[name]) && input[name] !== undefined ? redact(error) : error
+        })
+        return result.valid
+            ? { valid: true, value: frozenCopy(result.value), errors }
+            : { valid: false, errors }
+    }
+
+    return {
+        safeLoad,
+        load(source: ConfigSource): Config<S> {
+            const result = safeLoad(source)
+            if (!result.valid) {
+                throw new ValidationException(result.errors)
+            }
+            return result.value
+        }
+    }
+}
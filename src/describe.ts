@@ -0,0 +1,273 @@
+import { Validator } from './models'
+import { BuilderMetadata, RuleMetadata, ValidatorMetadata, metadataOf } from './metadata'
+
+export type DescriptionFormat = 'text' | 'markdown'
+
+export interface DescribeOptions {
+    /**
+     * 'text' indents nested fields with spaces, 'markdown' renders them as
+     * nested lists, for API docs. Defaults to 'text'.
+     */
+    format?: DescriptionFormat
+}
+
+// A node of the description: a one line summary of what's checked, and the fields or alternatives within it
+interface Description {
+    summary: string
+    children: Field[]
+}
+
+interface Field {
+    label: string
+    optional: boolean
+    description: Description
+}
+
+function describeValue(x: any): string {
+    return typeof x === 'string' ? `'${x}'` : JSON.stringify(x)
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function sizePhrase(noun: string, minLength?: number, maxLength?: number): string | undefined {
+    if (minLength !== undefined && maxLength !== undefined) {
+        return minLength === maxLength ? `exactly ${plural(minLength, noun)}` : `${minLength} to ${maxLength} ${noun}s`
+    }
+    if (minLength !== undefined) {
+        return `at least ${plural(minLength, noun)}`
+    }
+    return maxLength !== undefined ? `at most ${plural(maxLength, noun)}` : undefined
+}
+
+function joinPhrases(phrases: (string | undefined)[]): string {
+    return phrases.filter(phrase => phrase !== undefined && phrase !== '').join(', ')
+}
+
+function rulePhrase(metadata: RuleMetadata): string {
+    const params = metadata.params
+    switch (metadata.rule) {
+        case 'isString': return 'string'
+        case 'isNumber': return 'number'
+        case 'isBoolean': return 'boolean'
+        case 'isInteger': return 'integer'
+        case 'isDate': return 'Date'
+        case 'minDate': return `no earlier than ${params.min}`
+        case 'maxDate': return `no later than ${params.max}`
+        case 'isBinary': return 'binary data'
+        case 'minByteLength': return `at least ${plural(params.min, 'byte')}`
+        case 'maxByteLength': return `at most ${plural(params.max, 'byte')}`
+        case 'isRegExp': return 'RegExp'
+        case 'isPromise': return 'Promise'
+        case 'instanceOf': return `instance of ${params.className}`
+        case 'isObject': return 'object'
+        case 'matches': return `matching /${params.pattern}/${params.flags}`
+        case 'isEmail': return 'email address'
+        case 'isUUID': return 'UUID'
+        case 'isURL': return 'URL'
+        case 'isISO8601': return 'ISO 8601 date'
+        case 'minLength': return `length at least ${params.min}`
+        case 'maxLength': return `length at most ${params.max}`
+        case 'min': return `at least ${params.min}`
+        case 'max': return `at most ${params.max}`
+        case 'inRange': return `from ${params.min} to ${params.max}`
+        case 'isOneOf': return `one of ${params.options.map(describeValue).join(', ')}`
+    }
+}
+
+// Several descriptions checking the same value, e.g. the rules of a builder, read as a single one
+function combine(descriptions: Description[]): Description {
+    return {
+        summary: joinPhrases(descriptions.map(description => description.summary)),
+        children: descriptions.reduce((children: Field[], description) => children.concat(description.children), [])
+    }
+}
+
+function alternatives(summary: string, labels: string[], descriptions: Description[]): Description {
+    if (descriptions.every(description => description.children.length === 0)) {
+        return { summary: `${summary} ${descriptions.map(description => description.summary).join(' | ')}`, children: [] }
+    }
+    return {
+        summary: `${summary} the following`,
+        children: descriptions.map((description, i) => ({ label: labels[i], optional: false, description }))
+    }
+}
+
+function isOptionalProperty(rules: ValidatorMetadata[]): boolean {
+    return rules.some(rule => rule.kind === 'builder' && (rule.optional || rule.hasDefault))
+}
+
+function describeBuilder(metadata: BuilderMetadata, seen: Function[]): Description {
+    const rules = combine(metadata.rules.map(rule => describeMetadata(rule, seen)))
+    const keys = Object.keys(metadata.properties)
+    Object.keys(metadata.asyncProperties).filter(key => keys.indexOf(key) === -1).forEach(key => keys.push(key))
+    const fields = keys.map(key => {
+        const propertyRules = metadata.properties[key] || []
+        const asyncCount = (metadata.asyncProperties[key] || []).length
+        const description = combine(propertyRules.map(rule => describeMetadata(rule, seen)))
+        const summary = joinPhrases([
+            description.summary || (propertyRules.length === 0 ? 'any value' : undefined),
+            asyncCount > 0 ? `checked by ${plural(asyncCount, 'asynchronous rule')}` : undefined
+        ])
+        return { label: key, optional: isOptionalProperty(propertyRules), description: { ...description, summary } }
+    })
+
+    const unknownKeys = metadata.unknownKeys === 'strict'
+        ? 'no unknown properties'
+        : metadata.unknownKeys === 'strip' ? 'unknown properties removed' : undefined
+    const summary = joinPhrases([
+        rules.summary || (keys.length > 0 ? 'object' : 'any value'),
+        keys.length > 0 || metadata.unknownKeys !== 'passthrough' ? unknownKeys : undefined,
+        metadata.asyncRules.length > 0 ? `checked by ${plural(metadata.asyncRules.length, 'asynchronous rule')}` : undefined,
+        metadata.nullable ? 'or null' : undefined,
+        metadata.hasOwnProperty('default')
+            ? `defaults to ${describeValue(metadata.default)}`
+            : metadata.hasDefault ? 'has a default' : undefined,
+        metadata.preprocessors > 0 ? 'converted when parsing' : undefined,
+        metadata.transforms > 0 ? 'transformed when parsing' : undefined
+    ])
+    return { summary, children: rules.children.concat(fields) }
+}
+
+function describeMetadata(metadata: ValidatorMetadata, seen: Function[]): Description {
+    switch (metadata.kind) {
+        case 'rule':
+            return { summary: rulePhrase(metadata), children: [] }
+        case 'builder':
+            return describeBuilder(metadata, seen)
+        case 'array': {
+            const element = describeMetadata(metadata.element, seen)
+            return {
+                summary: joinPhrases([
+                    `array of ${element.summary}`,
+                    sizePhrase('item', metadata.minLength, metadata.maxLength),
+                    metadata.unique === 'identity' ? 'no duplicates' : metadata.unique === 'key' ? 'no duplicate keys' : undefined
+                ]),
+                children: element.children
+            }
+        }
+        case 'tuple': {
+            const elements = metadata.elements.map(element => describeMetadata(element, seen))
+            return {
+                summary: `tuple of ${plural(elements.length, 'item')}`,
+                children: elements.map((description, i) => ({ label: `[${i}]`, optional: false, description }))
+            }
+        }
+        case 'record': {
+            const value = describeMetadata(metadata.value, seen)
+            return {
+                summary: joinPhrases([
+                    `record of ${value.summary}`,
+                    metadata.key !== undefined ? `keys ${describeMetadata(metadata.key, seen).summary}` : undefined,
+                    sizePhrase('key', metadata.minLength, metadata.maxLength)
+                ]),
+                children: value.children
+            }
+        }
+        case 'map': {
+            const value = describeMetadata(metadata.value, seen)
+            return {
+                summary: joinPhrases([
+                    `Map from ${describeMetadata(metadata.key, seen).summary} to ${value.summary}`,
+                    sizePhrase('entry', metadata.minLength, metadata.maxLength)
+                ]),
+                children: value.children
+            }
+        }
+        case 'set': {
+            const element = describeMetadata(metadata.element, seen)
+            return {
+                summary: joinPhrases([`Set of ${element.summary}`, sizePhrase('item', metadata.minLength, metadata.maxLength)]),
+                children: element.children
+            }
+        }
+        case 'oneOf':
+            return alternatives(
+                'one of',
+                metadata.options.map((option, i) => `option ${i + 1}`),
+                metadata.options.map(option => describeMetadata(option, seen))
+            )
+        case 'allOf':
+            return alternatives(
+                'all of',
+                metadata.validators.map((validator, i) => `part ${i + 1}`),
+                metadata.validators.map(validator => describeMetadata(validator, seen))
+            )
+        case 'discriminated': {
+            const tags = Object.keys(metadata.mapping)
+            return {
+                summary: `one of the following, chosen by '${metadata.key}'`,
+                children: tags.map(tag => ({
+                    label: `${metadata.key}: ${describeValue(tag)}`,
+                    optional: false,
+                    description: describeMetadata(metadata.mapping[tag], seen)
+                }))
+            }
+        }
+        case 'when': {
+            const children = [
+                { label: 'if', optional: false, description: describeMetadata(metadata.predicate, seen) },
+                { label: 'then', optional: false, description: describeMetadata(metadata.then, seen) }
+            ]
+            if (metadata.else !== undefined) {
+                children.push({ label: 'else', optional: false, description: describeMetadata(metadata.else, seen) })
+            }
+            return { summary: 'depends on a condition', children }
+        }
+        case 'lazy': {
+            const target = metadata.resolve()
+            if (seen.indexOf(target) !== -1) {
+                return { summary: metadata.name !== undefined ? `${metadata.name} (recursive)` : 'recursive reference', children: [] }
+            }
+            return describeMetadata(metadataOf(target), seen.concat([target]))
+        }
+        case 'nullable': {
+            const validator = describeMetadata(metadata.validator, seen)
+            return { summary: `${validator.summary}, or null`, children: validator.children }
+        }
+        case 'jsonSchema':
+            return { summary: 'matching a JSON Schema', children: [] }
+        case 'custom':
+            return { summary: 'custom check', children: [] }
+    }
+}
+
+function renderText(description: Description, depth: number): string[] {
+    const indent = '    '.repeat(depth)
+    return description.children.reduce((lines: string[], field) => lines.concat(
+        [`${indent}${field.label}${field.optional ? ' (optional)' : ''}: ${field.description.summary}`],
+        renderText(field.description, depth + 1)
+    ), [])
+}
+
+function renderMarkdown(description: Description, depth: number): string[] {
+    const indent = '  '.repeat(depth)
+    return description.children.reduce((lines: string[], field) => lines.concat(
+        [`${indent}- \`${field.label}\`${field.optional ? ' *(optional)*' : ''}: ${field.description.summary}`],
+        renderMarkdown(field.description, depth + 1)
+    ), [])
+}
+
+/**
+ * Renders what a validator checks as readable text, built from its
+ * metadata (see metadataOf). Each field is listed on its own line, with
+ * nested fields indented beneath it.
+ *
+ * ```
+ * describe(objectOf({ name: isString(), engines: arrayOf(engineValidator) }))
+ * // object
+ * //     name: string
+ * //     engines: array of object
+ * //         type: one of 'fusion', 'ion'
+ * ```
+ *
+ * Pass `{ format: 'markdown' }` to render fields as a nested list instead.
+ */
+export function describe(validator: Validator<any>, options: DescribeOptions = {}): string {
+    const description = describeMetadata(metadataOf(validator), [validator])
+    if (options.format === 'markdown') {
+        return [`**${description.summary}**`, ''].concat(renderMarkdown(description, 0)).join('\n').trim()
+    }
+    return [description.summary].concat(renderText(description, 1)).join('\n')
+}
@@ -0,0 +1,80 @@
+import { ValidationError } from './models'
+
+// Errors for the value itself are grouped under the empty path
+function pathOf(error: ValidationError): string {
+    return error.path || ''
+}
+
+function formatMessage(errors: ValidationError[]): string {
+    const groups = groupByPath(errors)
+    const lines = [`Validation failed with ${errors.length} error${errors.length === 1 ? '' : 's'}:`]
+    Object.keys(groups).forEach(path => {
+        lines.push(`  ${path === '' ? '(value)' : path}:`)
+        groups[path].forEach(error => lines.push(`    - ${error.error}`))
+    })
+    return lines.join('\n')
+}
+
+// Without a prototype, so that paths like 'constructor' or '__proto__' are just keys
+function groupByPath(errors: ValidationError[]): Record<string, ValidationError[]> {
+    const groups: Record<string, ValidationError[]> = Object.create(null)
+    errors.forEach(error => {
+        const path = pathOf(error)
+        groups[path] = (groups[path] || []).concat([error])
+    })
+    return groups
+}
+
+/**
+ * Thrown by parse and assertValid when a value is invalid, holding every
+ * error found. The message lists the errors grouped by path:
+ *
+ * ```
+ * Validation failed with 2 errors:
+ *   name:
+ *     - Expected value of type string, but got type number
+ *   engines[0].type:
+ *     - Expected one of 'fusion', 'ion', but got 'warp'
+ * ```
+ */
+export class ValidationException extends Error {
+    readonly errors: ValidationError[]
+
+    constructor(errors: ValidationError[]) {
+        super(formatMessage(errors))
+        // Errors lose their prototype when compiled to ES5, which breaks instanceof
+        Object.setPrototypeOf(this, ValidationException.prototype)
+        this.name = 'ValidationException'
+        this.errors = errors
+    }
+
+    /**
+     * The errors grouped by path, in the order each path was first reported.
+     * Errors for the value itself are under ''.
+     */
+    byPath(): Record<string, ValidationError[]> {
+        return groupByPath(this.errors)
+    }
+
+    /**
+     * The error messages grouped by path, for showing next to the fields of
+     * a form, e.g. `{ 'name': ['Too short'], 'engines[0].type': ['Unknown engine'] }`.
+     * Messages for the value itself are under ''.
+     */
+    flatten(): Record<string, string[]> {
+        const groups = this.byPath()
+        const messages: Record<string, string[]> = Object.create(null)
+        Object.keys(groups).forEach(path => {
+            messages[path] = groups[path].map(error => error.error)
+        })
+        return messages
+    }
+
+    /**
+     * Includes the message when serialized with JSON.stringify, which
+     * otherwise leaves it out as it isn't enumerable
+     */
+    toJSON(): { name: string, message: string, errors: ValidationError[] } {
+        return { name: this.name, message: this.message, errors: this.errors }
+    }
+}
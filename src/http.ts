@@ -0,0 +1,244 @@
+import {
+    AsyncValidationOptions,
+    InferOutput,
+    ValidationError,
+    Validator
+} from './models'
+import { joinObjectPaths } from './paths'
+import { validateAsync } from './async'
+
+/**
+ * The parts of an HTTP request that can be validated
+ */
+export type RequestPart = 'body' | 'query' | 'params' | 'headers'
+
+/**
+ * Validators for the parts of a request. Parts without a validator aren't checked.
+ */
+export type RequestValidators = { [P in RequestPart]?: Validator<any> }
+
+/**
+ * The parsed values of the parts of a request that have validators
+ */
+export type ValidatedRequest<V extends RequestValidators> = { [P in keyof V]-?: InferOutput<NonNullable<V[P]>> }
+
+/**
+ * The outcome of validating a request. Error paths start with the part of
+ * the request they were found in, e.g. 'body.name' or 'query.page'.
+ */
+export type RequestValidationResult<V extends RequestValidators> =
+    | { valid: true, value: ValidatedRequest<V>, errors: ValidationError[] }
+    | { valid: false, errors: ValidationError[] }
+
+/**
+ * An RFC 9457 problem details object, sent as application/problem+json
+ */
+export interface ProblemDetails {
+    type: string
+    title: string
+    status: number
+    detail?: string
+    instance?: string
+    [member: string]: any
+}
+
+/**
+ * Options for validating requests. Parts are validated concurrently, but
+ * maxErrors and abortEarly apply across the whole request: at most maxErrors
+ * errors are reported in all, and with abortEarly only the first error found
+ * in the first invalid part, in the order body, query, params, headers.
+ */
+export interface RequestValidationOptions extends AsyncValidationOptions {
+    /**
+     * The status of the response sent for invalid requests. Defaults to 400.
+     */
+    status?: number
+
+    /**
+     * Builds the body of the response sent for invalid requests. By default
+     * it's a problem details object with the errors, less the values that
+     * failed, as an `errors` member.
+     */
+    problem?: (errors: ValidationError[], status: number) => ProblemDetails
+}
+
+// The requests and responses of each framework, as far as the adapters use them. Requests are typed by the
+// validators the middleware was built with, so that handlers can declare them to read the parsed values.
+
+export interface ExpressRequest<V extends RequestValidators = RequestValidators> {
+    body?: any
+    query?: any
+    params?: any
+    headers?: any
+    validated?: ValidatedRequest<V>
+}
+
+export interface ExpressResponse {
+    statusCode: number
+    setHeader(name: string, value: string): any
+    end(body: string): any
+}
+
+export interface KoaContext<V extends RequestValidators = RequestValidators> {
+    request: { body?: any }
+    query?: any
+    params?: any
+    headers?: any
+    state: { validated?: ValidatedRequest<V>, [key: string]: any }
+    status: number
+    type: string
+    body: any
+}
+
+export interface FastifyRequest<V extends RequestValidators = RequestValidators> {
+    body?: any
+    query?: any
+    params?: any
+    headers?: any
+    validated?: ValidatedRequest<V>
+}
+
+export interface FastifyReply {
+    code(status: number): FastifyReply
+    header(name: string, value: string): FastifyReply
+    send(body: any): any
+}
+
+const PARTS: RequestPart[] = ['body', 'query', 'params', 'headers']
+
+const PROBLEM_JSON = 'application/problem+json'
+
+function withPrefix(errors: ValidationError[], part: RequestPart): ValidationError[] {
+    return errors.map(error => {
+        const prefixed: ValidationError = { ...error, path: joinObjectPaths(part, error.path) }
+        if (error.branches !== undefined) {
+            prefixed.branches = error.branches.map(branch => withPrefix(branch, part))
+        }
+        return prefixed
+    })
+}
+
+// Values sent in the request aren't echoed back, including those in the branches of unions
+function withoutValues(errors: ValidationError[]): ValidationError[] {
+    return errors.map(({ value, ...error }) => {
+        if (error.branches !== undefined) {
+            error.branches = error.branches.map(withoutValues)
+        }
+        return error
+    })
+}
+
+function defaultProblem(errors: ValidationError[], status: number): ProblemDetails {
+    return {
+        type: 'about:blank',
+        title: 'The request is invalid',
+        status,
+        detail: `${errors.length} error${errors.length === 1 ? ' was' : 's were'} found in the request`,
+        errors: withoutValues(errors)
+    }
+}
+
+function problemFor(errors: ValidationError[], options: RequestValidationOptions): ProblemDetails {
+    const status = options.status !== undefined ? options.status : 400
+    return (options.problem || defaultProblem)(errors, status)
+}
+
+/**
+ * Validates the parts of a request, e.g. `{ body: req.body, query: req.query }`,
+ * with parse semantics: coercions, defaults, transforms and asynchronous rules
+ * all apply. Every part is checked, so that all of a request's errors are
+ * reported together, unless limited by the options.
+ */
+export function validateRequest<V extends RequestValidators>(
+    validators: V,
+    request: { [P in RequestPart]?: any },
+    options: RequestValidationOptions = {}
+): Promise<RequestValidationResult<V>> {
+    const parts = PARTS.filter(part => validators[part] !== undefined)
+    return Promise.all(parts.map(part => validateAsync(validators[part]!, request[part], options))).then(results => {
+        const value: { [part: string]: any } = {}
+        let errors: ValidationError[] = []
+        results.forEach((result, i) => {
+            // The parts were validated separately, so the limits are applied again to all of their errors
+            if (!options.abortEarly || errors.length === 0) {
+                errors = errors.concat(withPrefix(result.errors, parts[i]))
+            }
+            if (result.valid) {
+                value[parts[i]] = result.value
+            }
+        })
+        if (options.maxErrors !== undefined) {
+            errors = errors.slice(0, options.maxErrors)
+        }
+        return results.every(result => result.valid)
+            ? { valid: true, value: value as ValidatedRequest<V>, errors }
+            : { valid: false, errors }
+    })
+}
+
+/**
+ * Builds Express (or Connect) middleware which validates requests, storing
+ * the parsed parts as `req.validated` and calling the next handler, or
+ * responding with a problem+json 400 when the request is invalid.
+ *
+ * ```
+ * const shipRequest = { params: idParams, body: spaceshipValidator }
+ * app.post('/ships/:id', expressValidator(shipRequest), (req: ExpressRequest<typeof shipRequest>, res) => {
+ *     const { params, body } = req.validated!
+ * })
+ * ```
+ */
+export function expressValidator<V extends RequestValidators>(validators: V, options: RequestValidationOptions = {}) {
+    return (req: ExpressRequest<V>, res: ExpressResponse, next: (error?: any) => void): Promise<void> => {
+        return validateRequest(validators, req, options).then(result => {
+            if (result.valid) {
+                req.validated = result.value
+                next()
+                return
+            }
+            const problem = problemFor(result.errors, options)
+            res.statusCode = problem.status
+            res.setHeader('Content-Type', PROBLEM_JSON)
+            res.end(JSON.stringify(problem))
+        }, next)
+    }
+}
+
+/**
+ * Builds Koa middleware which validates requests, storing the parsed parts as
+ * `ctx.state.validated`, or responding with a problem+json 400. The body is
+ * read from `ctx.request.body`, so a body parser must run first.
+ */
+export function koaValidator<V extends RequestValidators>(validators: V, options: RequestValidationOptions = {}) {
+    return (ctx: KoaContext<V>, next: () => Promise<any>): Promise<any> => {
+        const request = { body: ctx.request.body, query: ctx.query, params: ctx.params, headers: ctx.headers }
+        return validateRequest(validators, request, options).then(result => {
+            if (result.valid) {
+                ctx.state.validated = result.value
+                return next()
+            }
+            const problem = problemFor(result.errors, options)
+            ctx.status = problem.status
+            ctx.type = PROBLEM_JSON
+            ctx.body = problem
+        })
+    }
+}
+
+/**
+ * Builds a Fastify preHandler hook which validates requests, storing the
+ * parsed parts as `request.validated`, or replying with a problem+json 400
+ */
+export function fastifyValidator<V extends RequestValidators>(validators: V, options: RequestValidationOptions = {}) {
+    return (request: FastifyRequest<V>, reply: FastifyReply): Promise<any> => {
+        return validateRequest(validators, request, options).then(result => {
+            if (result.valid) {
+                request.validated = result.value
+                return
+            }
+            const problem = problemFor(result.errors, options)
+            // Async hooks that reply early must return the reply
+            return reply.code(problem.status).header('Content-Type', PROBLEM_JSON).send(problem)
+        })
+    }
+}
@@ -1,8 +1,24 @@
 import * as Rules from './rules'
+import * as Coerce from './coercions'
 export * from './models'
 export * from './validatorfor'
+export * from './collections'
+export * from './objects'
+export * from './combinators'
+export * from './lazy'
+export * from './compile'
+export { asyncValidatorFor, validateAsync } from './async'
+export * from './messages'
+export * from './exceptions'
+export * from './assert'
+export * from './metadata'
+export * from './describe'
+export * from './arbitrary'
+export * from './jsonschema'
+export * from './http'
+export * from './config'
 
-export { Rules }
+export { Rules, Coerce }
 
 export namespace Validators {
 
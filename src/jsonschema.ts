@@ -0,0 +1,713 @@
+import {
+    ObjectPath,
+    UnknownKeyPolicy,
+    ValidationError,
+    Validator,
+    ValidatorBuilder
+} from './models'
+import * as Rules from './rules'
+import { joinObjectPaths } from './paths'
+import { Parsed, fromParser, isParsing, parseWith, shouldStop } from './parsing'
+import { BuilderMetadata, RuleMetadata, ValidatorMetadata, metadataOf, withMetadata } from './metadata'
+import { arrayOf } from './collections'
+import { allOf, oneOf } from './combinators'
+import { validatorFor } from './validatorfor'
+
+/**
+ * A JSON Schema, as a parsed JSON document
+ */
+export type JsonSchema = boolean | { [keyword: string]: any }
+
+/**
+ * A rule that toJsonSchema could not express, and left out of the schema
+ */
+export interface UnrepresentableRule {
+    /**
+     * A JSON Pointer to the subschema the rule would have belonged to,
+     * e.g. '/properties/engines/items'
+     */
+    pointer: string
+    reason: string
+}
+
+export interface JsonSchemaExport {
+    schema: JsonSchema
+    unrepresentable: UnrepresentableRule[]
+}
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema'
+
+type SchemaObject = { [keyword: string]: any }
+
+interface ExportContext {
+    unrepresentable: UnrepresentableRule[]
+    // Schemas for the targets of lazy validators, referred to with $ref
+    definitions: SchemaObject
+    // Per inherited unknown key policy, as a target reached under different ones needs a definition for each
+    names: Map<UnknownKeyPolicy | undefined, Map<Function, string>>
+    // The policy of the enclosing builder, which nested builders declaring properties follow unless they set their own
+    unknownKeys?: UnknownKeyPolicy
+}
+
+function escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescapePointer(segment: string): string {
+    return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+function asArray<T>(x: T | T[]): T[] {
+    return Array.isArray(x) ? x : [x]
+}
+
+function intersectTypes(a: string | string[], b: string | string[]): string | string[] | undefined {
+    const types: string[] = []
+    asArray(a).forEach(left => asArray(b).forEach(right => {
+        let type: string | undefined
+        if (left === right) {
+            type = left
+        } else if ((left === 'integer' && right === 'number') || (left === 'number' && right === 'integer')) {
+            type = 'integer'
+        }
+        if (type !== undefined && types.indexOf(type) === -1) {
+            types.push(type)
+        }
+    }))
+    if (types.length === 0) {
+        return undefined
+    }
+    return types.length === 1 ? types[0] : types
+}
+
+/**
+ * Combines two schemas which must both hold. Keywords that can't be combined
+ * into one schema, e.g. two different patterns, are moved into an allOf.
+ */
+function mergeSchemas(a: SchemaObject, b: SchemaObject): SchemaObject {
+    const merged: SchemaObject = { ...a }
+    const conflicts: SchemaObject[] = []
+    Object.keys(b).forEach(keyword => {
+        if (!merged.hasOwnProperty(keyword)) {
+            merged[keyword] = b[keyword]
+        } else if (keyword === 'type') {
+            const type = intersectTypes(merged.type, b.type)
+            if (type === undefined) {
+                conflicts.push({ type: b.type })
+            } else {
+                merged.type = type
+            }
+        } else if (keyword === 'properties') {
+            const properties: SchemaObject = { ...merged.properties }
+            Object.keys(b.properties).forEach(key => {
+                properties[key] = properties.hasOwnProperty(key) ? mergeSchemas(properties[key], b.properties[key]) : b.properties[key]
+            })
+            merged.properties = properties
+        } else if (keyword === 'required') {
+            merged.required = merged.required.concat(b.required.filter((key: string) => merged.required.indexOf(key) === -1))
+        } else if (keyword === 'allOf') {
+            merged.allOf = merged.allOf.concat(b.allOf)
+        } else if (JSON.stringify(merged[keyword]) !== JSON.stringify(b[keyword])) {
+            conflicts.push({ [keyword]: b[keyword] })
+        }
+    })
+    if (conflicts.length > 0) {
+        merged.allOf = (merged.allOf || []).concat(conflicts)
+    }
+    // Length rules apply to both strings and arrays, so drop the keywords for whichever type was ruled out
+    if (merged.type === 'string' || merged.type === 'array') {
+        const unused = merged.type === 'string' ? ['minItems', 'maxItems'] : ['minLength', 'maxLength']
+        unused.forEach(keyword => delete merged[keyword])
+    }
+    return merged
+}
+
+function withoutUndefined(schema: SchemaObject): SchemaObject {
+    const defined: SchemaObject = {}
+    Object.keys(schema).filter(keyword => schema[keyword] !== undefined).forEach(keyword => {
+        defined[keyword] = schema[keyword]
+    })
+    return defined
+}
+
+function ruleSchema(metadata: RuleMetadata, pointer: string, context: ExportContext): SchemaObject {
+    const params = metadata.params
+    switch (metadata.rule) {
+        case 'isString':
+            return { type: 'string' }
+        case 'isNumber':
+            return { type: 'number' }
+        case 'isBoolean':
+            return { type: 'boolean' }
+        case 'isInteger':
+            return { type: 'integer' }
+        case 'isObject':
+            return { type: 'object' }
+        case 'isDate':
+        case 'minDate':
+        case 'maxDate':
+            context.unrepresentable.push({ pointer, reason: 'Dates have no JSON representation' })
+            return {}
+        case 'isBinary':
+        case 'minByteLength':
+        case 'maxByteLength':
+            context.unrepresentable.push({ pointer, reason: 'Binary data has no JSON representation' })
+            return {}
+        case 'isRegExp':
+            context.unrepresentable.push({ pointer, reason: 'Regular expressions have no JSON representation' })
+            return {}
+        case 'isPromise':
+            context.unrepresentable.push({ pointer, reason: 'Promises have no JSON representation' })
+            return {}
+        case 'instanceOf':
+            context.unrepresentable.push({ pointer, reason: `Instances of ${params.className} have no JSON representation` })
+            return { type: 'object' }
+        case 'matches': {
+            const flags = params.flags.replace(/[gy]/g, '')
+            if (flags !== '') {
+                context.unrepresentable.push({ pointer, reason: `The regular expression flags '${flags}' cannot be represented` })
+            }
+            return { type: 'string', pattern: params.pattern }
+        }
+        case 'isEmail':
+            return { type: 'string', format: 'email' }
+        case 'isUUID':
+            return { type: 'string', format: 'uuid' }
+        case 'isURL':
+            return { type: 'string', format: 'uri' }
+        case 'isISO8601':
+            // The pattern allows dates like 2021-02-30, which the rule rejects
+            context.unrepresentable.push({ pointer, reason: 'Checking that ISO-8601 dates exist in the calendar cannot be represented in JSON Schema' })
+            return { type: 'string', pattern: params.pattern }
+        case 'minLength':
+            return { type: ['string', 'array'], minLength: params.min, minItems: params.min }
+        case 'maxLength':
+            return { type: ['string', 'array'], maxLength: params.max, maxItems: params.max }
+        case 'min':
+            return { type: 'number', minimum: params.min }
+        case 'max':
+            return { type: 'number', maximum: params.max }
+        case 'inRange':
+            return { type: 'number', minimum: params.min, maximum: params.max }
+        case 'isOneOf': {
+            const options: any[] = params.options
+            if (options.indexOf(undefined) !== -1) {
+                context.unrepresentable.push({ pointer, reason: 'undefined has no JSON representation' })
+            }
+            return { enum: options.filter(option => option !== undefined) }
+        }
+    }
+}
+
+function builderSchema(metadata: BuilderMetadata, pointer: string, context: ExportContext): SchemaObject {
+    if (metadata.nullable) {
+        const { default: defaultValue, ...notNullable } = metadata
+        const schema: SchemaObject = { anyOf: [builderSchema({ ...notNullable, nullable: false }, `${pointer}/anyOf/0`, context), { type: 'null' }] }
+        if (metadata.hasOwnProperty('default')) {
+            schema.default = defaultValue
+        }
+        return schema
+    }
+
+    // Nested builders follow this one's policy, unless they set their own
+    const nested = metadata.unknownKeys !== undefined ? { ...context, unknownKeys: metadata.unknownKeys } : context
+    let schema: SchemaObject = {}
+    metadata.rules.forEach(rule => {
+        schema = mergeSchemas(schema, schemaFor(rule, pointer, nested))
+    })
+
+    const keys = Object.keys(metadata.properties)
+    Object.keys(metadata.asyncProperties).filter(key => keys.indexOf(key) === -1).forEach(key => keys.push(key))
+    if (keys.length > 0) {
+        const properties: SchemaObject = {}
+        const required: string[] = []
+        keys.forEach(key => {
+            const rules = metadata.properties[key] || []
+            const keyPointer = `${pointer}/properties/${escapePointer(key)}`
+            properties[key] = rules.reduce((merged, rule) => mergeSchemas(merged, schemaFor(rule, keyPointer, nested)), {})
+            // A property with a default, or which is optional, may be left out
+            if (!rules.some(rule => rule.kind === 'builder' && (rule.hasDefault || rule.optional))) {
+                required.push(key)
+            }
+        })
+        schema = mergeSchemas(schema, required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties })
+    }
+    if (keys.length > 0 ? nested.unknownKeys === 'strict' : metadata.unknownKeys === 'strict') {
+        schema = mergeSchemas(schema, { additionalProperties: false })
+    }
+
+    const asyncPointers = metadata.asyncRules.map(() => pointer)
+    Object.keys(metadata.asyncProperties).forEach(key => metadata.asyncProperties[key].forEach(() => {
+        asyncPointers.push(`${pointer}/properties/${escapePointer(key)}`)
+    }))
+    asyncPointers.forEach(asyncPointer => context.unrepresentable.push({
+        pointer: asyncPointer,
+        reason: 'Asynchronous rules cannot be represented in JSON Schema'
+    }))
+
+    if (metadata.hasOwnProperty('default')) {
+        schema.default = metadata.default
+    }
+    return schema
+}
+
+// allOf, discriminated and when run validators which may only know some of the properties, as the enclosing
+// builder's policy doesn't apply to them
+function withoutInheritedPolicy(context: ExportContext): ExportContext {
+    return { ...context, unknownKeys: 'passthrough' }
+}
+
+function schemaFor(metadata: ValidatorMetadata, pointer: string, context: ExportContext): SchemaObject {
+    switch (metadata.kind) {
+        case 'rule':
+            return ruleSchema(metadata, pointer, context)
+        case 'builder':
+            return builderSchema(metadata, pointer, context)
+        case 'array': {
+            if (metadata.unique === 'key') {
+                context.unrepresentable.push({ pointer, reason: 'Uniqueness by key cannot be represented in JSON Schema' })
+            }
+            return withoutUndefined({
+                type: 'array',
+                items: schemaFor(metadata.element, `${pointer}/items`, context),
+                minItems: metadata.minLength,
+                maxItems: metadata.maxLength,
+                uniqueItems: metadata.unique === 'identity' ? true : undefined
+            })
+        }
+        case 'tuple':
+            return {
+                type: 'array',
+                prefixItems: metadata.elements.map((element, index) => schemaFor(element, `${pointer}/prefixItems/${index}`, context)),
+                items: false,
+                minItems: metadata.elements.length
+            }
+        case 'record':
+            return withoutUndefined({
+                type: 'object',
+                propertyNames: metadata.key !== undefined ? schemaFor(metadata.key, `${pointer}/propertyNames`, context) : undefined,
+                additionalProperties: schemaFor(metadata.value, `${pointer}/additionalProperties`, context),
+                minProperties: metadata.minLength,
+                maxProperties: metadata.maxLength
+            })
+        case 'map':
+            context.unrepresentable.push({ pointer, reason: 'Maps have no JSON representation' })
+            return {}
+        case 'set':
+            context.unrepresentable.push({ pointer, reason: 'Sets have no JSON representation' })
+            return {}
+        case 'oneOf':
+            // oneOf accepts values matching any of its validators, which is anyOf in JSON Schema
+            return { anyOf: metadata.options.map((option, index) => schemaFor(option, `${pointer}/anyOf/${index}`, context)) }
+        case 'allOf':
+            return { allOf: metadata.validators.map((validator, index) => schemaFor(validator, `${pointer}/allOf/${index}`, withoutInheritedPolicy(context))) }
+        case 'discriminated': {
+            const key = metadata.key
+            return {
+                type: 'object',
+                required: [key],
+                oneOf: Object.keys(metadata.mapping).map((tag, index) => mergeSchemas(
+                    schemaFor(metadata.mapping[tag], `${pointer}/oneOf/${index}`, withoutInheritedPolicy(context)),
+                    { properties: { [key]: { const: tag } } }
+                ))
+            }
+        }
+        case 'when':
+            // An 'if' we can't express would apply the wrong branch, so leave the whole condition out
+            if (metadata.predicate.kind === 'custom') {
+                context.unrepresentable.push({ pointer, reason: 'Conditions with custom predicates cannot be represented in JSON Schema' })
+                return {}
+            }
+            return withoutUndefined({
+                if: schemaFor(metadata.predicate, `${pointer}/if`, withoutInheritedPolicy(context)),
+                then: schemaFor(metadata.then, `${pointer}/then`, withoutInheritedPolicy(context)),
+                else: metadata.else !== undefined ? schemaFor(metadata.else, `${pointer}/else`, withoutInheritedPolicy(context)) : undefined
+            })
+        case 'lazy': {
+            const target = metadata.resolve()
+            let names = context.names.get(context.unknownKeys)
+            if (names === undefined) {
+                names = new Map()
+                context.names.set(context.unknownKeys, names)
+            }
+            let name = names.get(target)
+            if (name === undefined) {
+                const base = metadata.name || 'Definition'
+                name = base
+                for (let i = 2; context.definitions.hasOwnProperty(name); i++) {
+                    name = `${base}${i}`
+                }
+                // Claim the name before describing the target, which may refer back to it
+                names.set(target, name)
+                context.definitions[name] = {}
+                context.definitions[name] = schemaFor(metadataOf(target), `/$defs/${escapePointer(name)}`, context)
+            }
+            return { $ref: `#/$defs/${escapePointer(name)}` }
+        }
+        case 'nullable':
+            return { anyOf: [schemaFor(metadata.validator, `${pointer}/anyOf/0`, context), { type: 'null' }] }
+        case 'jsonSchema': {
+            if (typeof metadata.schema === 'boolean') {
+                return metadata.schema ? {} : { not: {} }
+            }
+            const schema: SchemaObject = { ...metadata.schema }
+            delete schema.$schema
+            return schema
+        }
+        case 'custom':
+            context.unrepresentable.push({ pointer, reason: 'Custom rules cannot be represented in JSON Schema' })
+            return {}
+    }
+}
+
+/**
+ * Describes a validator as a draft 2020-12 JSON Schema. Validators built from
+ * the built-in rules, collections and combinators are fully described. Rules
+ * with no JSON Schema equivalent, like custom checks passed to withRule,
+ * asynchronous rules and Dates, are left out of the schema and listed in
+ * `unrepresentable` instead.
+ *
+ * ```
+ * const { schema, unrepresentable } = toJsonSchema(spaceshipValidator)
+ * ```
+ */
+export function toJsonSchema(validator: Validator<any>): JsonSchemaExport {
+    const context: ExportContext = { unrepresentable: [], definitions: {}, names: new Map() }
+    const schema: SchemaObject = { $schema: DRAFT_2020_12, ...schemaFor(metadataOf(validator), '', context) }
+    if (Object.keys(context.definitions).length > 0) {
+        schema.$defs = context.definitions
+    }
+    return { schema, unrepresentable: context.unrepresentable }
+}
+
+function isPlainObject(x: any): boolean {
+    return typeof x === 'object' && x !== null && !Array.isArray(x)
+}
+
+function hasOwn(x: any, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(x, key)
+}
+
+function hasDefault(schema: JsonSchema): boolean {
+    return typeof schema === 'object' && hasOwn(schema, 'default')
+}
+
+// Most keywords only constrain values of one type, and accept anything else
+function whenType(applies: (x: any) => boolean, validator: Validator<any>): Validator<any> {
+    return fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<any> => {
+        return applies(x) ? parseWith(validator, x, errorCollector, path) : { valid: true, value: x }
+    })
+}
+
+function resolvePointer(root: JsonSchema, ref: string): JsonSchema {
+    if (ref.charAt(0) !== '#') {
+        throw new Error(`Only references within the schema are supported, but got '${ref}'`)
+    }
+    let schema: any = root
+    ref.substring(1).split('/').filter(segment => segment !== '').forEach(segment => {
+        const key = unescapePointer(segment)
+        if (typeof schema !== 'object' || schema === null || !schema.hasOwnProperty(key)) {
+            throw new Error(`Could not resolve the reference '${ref}'`)
+        }
+        schema = schema[key]
+    })
+    return schema
+}
+
+// The same string for JSON values which are deeply equal, whatever the order of their properties, or undefined for
+// values JSON can't represent
+function canonicalJson(x: any): string | undefined {
+    if (x === null || typeof x === 'string' || typeof x === 'boolean' || (typeof x === 'number' && isFinite(x))) {
+        return JSON.stringify(x)
+    }
+    if (Array.isArray(x)) {
+        const items = x.map(canonicalJson)
+        return items.every(item => item !== undefined) ? `[${items.join(',')}]` : undefined
+    }
+    if (typeof x === 'object' && (Object.getPrototypeOf(x) === Object.prototype || Object.getPrototypeOf(x) === null)) {
+        const entries = Object.keys(x).sort().map(key => {
+            const value = canonicalJson(x[key])
+            return value !== undefined ? `${JSON.stringify(key)}:${value}` : undefined
+        })
+        return entries.every(entry => entry !== undefined) ? `{${entries.join(',')}}` : undefined
+    }
+    return undefined
+}
+
+// enum, const and uniqueItems compare values structurally. Values JSON can't represent are only equal to themselves.
+function jsonKey(x: any): any {
+    const json = canonicalJson(x)
+    return json !== undefined ? json : x
+}
+
+function enumValidator(options: any[]): Validator<any> {
+    if (options.every(option => typeof option !== 'object' || option === null)) {
+        return Rules.isOneOf(options)
+    }
+    const keys = options.map(jsonKey)
+    return validatorFor<any>(
+        (x) => keys.indexOf(jsonKey(x)) !== -1,
+        (x) => `Expected one of ${options.map(option => JSON.stringify(option)).join(', ')}, but got ${JSON.stringify(x)}`,
+        'enum.invalid',
+        () => ({ options: options.slice() })
+    )
+}
+
+function typeValidator(type: string): Validator<any> {
+    switch (type) {
+        case 'string':
+            return Rules.isString()
+        case 'number':
+            return Rules.isNumber()
+        case 'integer':
+            return Rules.isInteger()
+        case 'boolean':
+            return Rules.isBoolean()
+        case 'null':
+            return validatorFor<null>((x) => x === null, (x) => `Expected null, but got type ${typeof x}`, 'null.type')
+        case 'array':
+            return validatorFor<any[]>((x) => Array.isArray(x), (x) => `Expected an array, but got type ${typeof x}`, 'array.type')
+        case 'object':
+            return validatorFor<object>(isPlainObject, (x) => `Expected an object, but got ${x === null ? 'null' : `type ${typeof x}`}`, 'object.type')
+        default:
+            throw new Error(`Unsupported type '${type}' in JSON Schema`)
+    }
+}
+
+function exactlyOneOf(validators: Validator<any>[]): Validator<any> {
+    const union = oneOf(...validators)
+    return fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<any> => {
+        const matches = validators.filter(validator => validator(x)).length
+        if (matches > 1) {
+            if (errorCollector !== undefined) {
+                errorCollector.push({
+                    path,
+                    error: `Expected value to match exactly one of ${validators.length} alternatives, but it matched ${matches}`,
+                    code: 'union.multipleMatches',
+                    params: { alternatives: validators.length, matches },
+                    value: x
+                })
+            }
+            return { valid: false, value: x }
+        }
+        return parseWith(union, x, errorCollector, path)
+    })
+}
+
+function objectValidator(schema: SchemaObject, root: JsonSchema, refs: { [ref: string]: Validator<any> }): Validator<any> {
+    const propertySchemas: { [key: string]: JsonSchema } = schema.properties || {}
+    const properties: { [key: string]: Validator<any> } = {}
+    Object.keys(propertySchemas).forEach(key => {
+        properties[key] = validatorForSchema(propertySchemas[key], root, refs)
+    })
+    const required: string[] = schema.required || []
+    const additional = schema.additionalProperties !== undefined
+        ? validatorForSchema(schema.additionalProperties, root, refs)
+        : undefined
+
+    return fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<any> => {
+        let valid = true
+        const changed: { [key: string]: any } = {}
+        let anyChanged = false
+        const check = (key: string, validator: Validator<any>, value: any) => {
+            if (shouldStop(valid, errorCollector)) {
+                return
+            }
+            const parsed = parseWith(validator, value, errorCollector, joinObjectPaths(path, key))
+            valid = parsed.valid && valid
+            if (parsed.value !== value) {
+                changed[key] = parsed.value
+                anyChanged = true
+            }
+        }
+
+        required.forEach(key => {
+            const defaulted = isParsing() && properties.hasOwnProperty(key) && hasDefault(propertySchemas[key])
+            if (!hasOwn(x, key) && !defaulted) {
+                valid = false
+                if (errorCollector !== undefined) {
+                    errorCollector.push({
+                        path: joinObjectPaths(path, key),
+                        error: `Missing required property '${key}'`,
+                        code: 'object.required',
+                        params: { key }
+                    })
+                }
+            }
+        })
+        Object.keys(properties).forEach(key => {
+            if (hasOwn(x, key)) {
+                check(key, properties[key], x[key])
+            } else if (isParsing() && hasDefault(propertySchemas[key])) {
+                check(key, properties[key], undefined)
+            }
+        })
+        const unknownKeys = Object.keys(x).filter(key => !properties.hasOwnProperty(key))
+        if (schema.additionalProperties === false) {
+            unknownKeys.forEach(key => {
+                valid = false
+                if (errorCollector !== undefined) {
+                    errorCollector.push({
+                        path: joinObjectPaths(path, key),
+                        error: `Unexpected property '${key}'`,
+                        code: 'object.unknownKey',
+                        params: { key },
+                        value: x[key]
+                    })
+                }
+            })
+        } else if (additional !== undefined) {
+            unknownKeys.forEach(key => check(key, additional, x[key]))
+        }
+        return { valid, value: anyChanged ? { ...x, ...changed } : x }
+    })
+}
+
+function validatorForSchema(schema: JsonSchema, root: JsonSchema, refs: { [ref: string]: Validator<any> }): ValidatorBuilder<any> {
+    if (schema === true) {
+        return validatorFor<any>()
+    }
+    if (schema === false) {
+        return validatorFor<any>(() => false, () => 'No value is allowed here', 'schema.false')
+    }
+
+    let builder = validatorFor<any>()
+    const addRule = (rule: Validator<any>) => {
+        builder = builder.withRule(rule)
+    }
+    const isString = (x: any) => typeof x === 'string'
+    const isNumber = (x: any) => typeof x === 'number'
+    const isArray = (x: any) => Array.isArray(x)
+
+    if (typeof schema.$ref === 'string') {
+        const ref: string = schema.$ref
+        // Check the reference now, but only build its validator when it's first used, so that schemas can refer to themselves
+        resolvePointer(root, ref)
+        addRule(fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<any> => {
+            if (!refs.hasOwnProperty(ref)) {
+                refs[ref] = validatorForSchema(resolvePointer(root, ref), root, refs)
+            }
+            return parseWith(refs[ref], x, errorCollector, path)
+        }))
+    }
+    if (schema.type !== undefined) {
+        const types: string[] = asArray(schema.type)
+        addRule(types.length === 1 ? typeValidator(types[0]) : oneOf(...types.map(typeValidator)))
+    }
+    if (schema.enum !== undefined) {
+        addRule(enumValidator(schema.enum))
+    }
+    if (schema.hasOwnProperty('const')) {
+        addRule(enumValidator([schema.const]))
+    }
+
+    if (schema.minLength !== undefined) {
+        addRule(whenType(isString, Rules.minLength(schema.minLength)))
+    }
+    if (schema.maxLength !== undefined) {
+        addRule(whenType(isString, Rules.maxLength(schema.maxLength)))
+    }
+    if (schema.pattern !== undefined) {
+        addRule(whenType(isString, Rules.matches(new RegExp(schema.pattern))))
+    }
+    const formats: { [format: string]: () => Validator<string> } = {
+        'email': Rules.isEmail,
+        'uuid': Rules.isUUID,
+        'uri': Rules.isURL,
+        'date': Rules.isISO8601,
+        'date-time': Rules.isISO8601
+    }
+    // Unknown formats are only annotations, as the specification allows
+    if (schema.format !== undefined && formats.hasOwnProperty(schema.format)) {
+        addRule(whenType(isString, formats[schema.format]()))
+    }
+
+    if (schema.minimum !== undefined) {
+        addRule(whenType(isNumber, Rules.min(schema.minimum)))
+    }
+    if (schema.maximum !== undefined) {
+        addRule(whenType(isNumber, Rules.max(schema.maximum)))
+    }
+    if (schema.exclusiveMinimum !== undefined) {
+        const bound: number = schema.exclusiveMinimum
+        addRule(whenType(isNumber, validatorFor<number>((x) => x > bound, (x) => `Expected a number greater than ${bound}, but got ${x}`, 'number.tooSmall', () => ({ min: bound, exclusive: true }))))
+    }
+    if (schema.exclusiveMaximum !== undefined) {
+        const bound: number = schema.exclusiveMaximum
+        addRule(whenType(isNumber, validatorFor<number>((x) => x < bound, (x) => `Expected a number less than ${bound}, but got ${x}`, 'number.tooBig', () => ({ max: bound, exclusive: true }))))
+    }
+
+    if (schema.minItems !== undefined) {
+        addRule(whenType(isArray, Rules.minLength(schema.minItems)))
+    }
+    if (schema.maxItems !== undefined) {
+        addRule(whenType(isArray, Rules.maxLength(schema.maxItems)))
+    }
+    if (schema.prefixItems !== undefined) {
+        const prefix: Validator<any>[] = schema.prefixItems.map((item: JsonSchema) => validatorForSchema(item, root, refs))
+        addRule(whenType(isArray, fromParser((x: any[], errorCollector?: ValidationError[], path?: ObjectPath): Parsed<any[]> => {
+            let valid = true
+            const elements = x.map((element, index) => {
+                if (index >= prefix.length) {
+                    return element
+                }
+                const parsed = parseWith(prefix[index], element, errorCollector, joinObjectPaths(path, index))
+                valid = parsed.valid && valid
+                return parsed.value
+            })
+            return { valid, value: elements }
+        })))
+    }
+    if (schema.items !== undefined) {
+        const items = validatorForSchema(schema.items, root, refs)
+        const prefixLength = schema.prefixItems !== undefined ? schema.prefixItems.length : 0
+        addRule(whenType(isArray, prefixLength === 0 ? arrayOf(items) : fromParser((x: any[], errorCollector?: ValidationError[], path?: ObjectPath): Parsed<any[]> => {
+            // items only applies to the elements after prefixItems
+            let valid = true
+            const rest = x.slice(prefixLength).map((element, index) => {
+                const parsed = parseWith(items, element, errorCollector, joinObjectPaths(path, prefixLength + index))
+                valid = parsed.valid && valid
+                return parsed.value
+            })
+            return { valid, value: x.slice(0, prefixLength).concat(rest) }
+        })))
+    }
+    if (schema.uniqueItems === true) {
+        addRule(whenType(isArray, arrayOf(validatorFor<any>(), { unique: jsonKey })))
+    }
+
+    if (schema.properties !== undefined || schema.required !== undefined || schema.additionalProperties !== undefined) {
+        addRule(whenType(isPlainObject, objectValidator(schema, root, refs)))
+    }
+
+    if (schema.allOf !== undefined) {
+        addRule(allOf(...schema.allOf.map((subschema: JsonSchema) => validatorForSchema(subschema, root, refs))))
+    }
+    if (schema.anyOf !== undefined) {
+        addRule(oneOf(...schema.anyOf.map((subschema: JsonSchema) => validatorForSchema(subschema, root, refs))))
+    }
+    if (schema.oneOf !== undefined) {
+        addRule(exactlyOneOf(schema.oneOf.map((subschema: JsonSchema) => validatorForSchema(subschema, root, refs))))
+    }
+
+    return hasDefault(schema) ? builder.default(schema.default) : builder
+}
+
+/**
+ * Builds a validator from a JSON Schema. The common keywords are supported:
+ * type, enum, const, the string, number and array constraints, properties,
+ * required, additionalProperties, items, prefixItems, allOf, anyOf, oneOf,
+ * format (email, uuid, uri, date and date-time) and references to other parts
+ * of the same schema with $ref. Other keywords are ignored. Defaults are
+ * filled in when parsing.
+ *
+ * ```
+ * const spaceshipValidator = fromJsonSchema<Spaceship>(spaceshipSchema)
+ * ```
+ *
+ * Throws if the schema uses an unknown type or a $ref that can't be resolved.
+ */
+export function fromJsonSchema<T = unknown>(schema: JsonSchema): ValidatorBuilder<T> {
+    const validator = validatorForSchema(schema, schema, {})
+    return validatorFor<T>().withRule(withMetadata(validator, () => ({ kind: 'jsonSchema', schema })))
+}
@@ -0,0 +1,79 @@
+import {
+    ObjectPath,
+    ValidationError,
+    Validator,
+    ValidatorBuilder
+} from './models'
+import { Parsed, fromParser, parseWith } from './parsing'
+import { withMetadata } from './metadata'
+import { validatorFor } from './validatorfor'
+
+interface Visit {
+    validator: Function
+    value: object
+    path: ObjectPath
+}
+
+// The objects lazy validators are part way through checking. Validation is
+// synchronous, so as with parsing mode a single stack is enough.
+const visiting: Visit[] = []
+
+/**
+ * Builds a validator which defers to the validator returned by
+ * `getValidator`, fetched the first time it's needed. This lets validators
+ * refer to themselves, or to each other, before they have been defined.
+ *
+ * ```
+ * interface Person {
+ *     name: string
+ *     children: Person[]
+ * }
+ *
+ * const personValidator: ValidatorBuilder<Person> = objectFor<Person>({
+ *     name: isString(),
+ *     children: arrayOf(lazy(() => personValidator))
+ * })
+ * ```
+ *
+ * If an object contains itself, checking it would never end. Instead, the
+ * repeat is reported as an error with code 'object.cycle'. The optional
+ * `name` is used for the definition when exporting to JSON Schema.
+ */
+export function lazy<T>(getValidator: () => Validator<T>, name?: string): ValidatorBuilder<T> {
+    let resolved: Validator<T> | undefined
+    const resolve = () => {
+        if (resolved === undefined) {
+            resolved = getValidator()
+        }
+        return resolved
+    }
+
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T> => {
+        if (typeof x !== 'object' || x === null) {
+            return parseWith(resolve(), x, errorCollector, path)
+        }
+        // Keyed on the target, as separate lazy validators may lead to the same one
+        const target = resolve()
+        const repeated = visiting.filter(visit => visit.validator === target && visit.value === x)[0]
+        if (repeated !== undefined) {
+            if (errorCollector !== undefined) {
+                errorCollector.push({
+                    path,
+                    error: repeated.path === ''
+                        ? 'Circular reference to the value itself'
+                        : `Circular reference to the value at '${repeated.path}'`,
+                    code: 'object.cycle',
+                    params: { ancestorPath: repeated.path }
+                })
+            }
+            return { valid: false, value: x }
+        }
+        visiting.push({ validator: target, value: x, path: path || '' })
+        try {
+            return parseWith(target, x, errorCollector, path)
+        } finally {
+            visiting.pop()
+        }
+    })
+    return validatorFor<T>().withRule(withMetadata(validator, () => ({ kind: 'lazy', name, resolve })))
+}
@@ -0,0 +1,102 @@
+import {
+    ErrorCode,
+    ErrorMessage,
+    MessageFormatter,
+    ValidationError
+} from './models'
+
+/**
+ * A message for an error code. Strings may refer to the error's params,
+ * value and path with placeholders, e.g. 'Must be at least {min} characters'
+ */
+export type MessageTemplate = string | ((error: ValidationError) => ErrorMessage)
+
+/**
+ * The messages for one locale, keyed by ErrorCode
+ */
+export type MessageCatalog = { [code: string]: MessageTemplate }
+
+export interface MessageFormatterOptions {
+    /**
+     * The locale to fall back to when an error has no message in the requested
+     * locale, or no locale is requested
+     */
+    defaultLocale?: string
+}
+
+function interpolate(template: string, error: ValidationError): ErrorMessage {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        if (error.params !== undefined && error.params.hasOwnProperty(name)) {
+            return String(error.params[name])
+        }
+        if (name === 'value') {
+            return String(error.value)
+        }
+        if (name === 'path') {
+            return error.path || ''
+        }
+        return placeholder
+    })
+}
+
+// 'pt-BR' is looked up as 'pt-BR', then 'pt'
+function candidateLocales(locale: string | undefined, defaultLocale: string | undefined): string[] {
+    const candidates: string[] = []
+    const add = (candidate?: string) => {
+        if (candidate !== undefined && candidates.indexOf(candidate) === -1) {
+            candidates.push(candidate)
+        }
+    }
+    [locale, defaultLocale].forEach(candidate => {
+        add(candidate)
+        if (candidate !== undefined && candidate.indexOf('-') !== -1) {
+            add(candidate.split('-')[0])
+        }
+    })
+    return candidates
+}
+
+/**
+ * Builds a MessageFormatter out of a catalog of messages per locale. Errors
+ * whose code has no message in any candidate locale, or that have no code,
+ * keep the message built by their ErrorMessageBuilder.
+ *
+ * ```
+ * const messages = createMessageFormatter({
+ *     en: { 'string.tooShort': 'Must be at least {min} characters' },
+ *     fr: { 'string.tooShort': 'Doit contenir au moins {min} caractères' }
+ * }, { defaultLocale: 'en' })
+ *
+ * validator.safeParse(input, { messages, locale: 'fr-CA' })
+ * ```
+ */
+export function createMessageFormatter(catalogs: { [locale: string]: MessageCatalog }, options: MessageFormatterOptions = {}): MessageFormatter {
+    return (error: ValidationError, locale?: string): ErrorMessage => {
+        if (error.code === undefined) {
+            return error.error
+        }
+        const code: ErrorCode = error.code
+        const catalog = candidateLocales(locale, options.defaultLocale)
+            .map(candidate => catalogs[candidate])
+            .filter(candidate => candidate !== undefined && candidate.hasOwnProperty(code))[0]
+        if (catalog === undefined) {
+            return error.error
+        }
+        const template = catalog[code]
+        return typeof template === 'string' ? interpolate(template, error) : template(error)
+    }
+}
+
+/**
+ * Returns copies of errors with their messages rewritten by a formatter,
+ * including the errors of each branch of a union
+ */
+export function localizeErrors(errors: ValidationError[], formatter: MessageFormatter, locale?: string): ValidationError[] {
+    return errors.map(error => {
+        const localized: ValidationError = { ...error, error: formatter(error, locale) }
+        if (error.branches !== undefined) {
+            localized.branches = error.branches.map(branch => localizeErrors(branch, formatter, locale))
+        }
+        return localized
+    })
+}
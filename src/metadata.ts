@@ -0,0 +1,196 @@
+import {
+    ErrorParams,
+    UnknownKeyPolicy
+} from './models'
+
+/**
+ * The names of the built-in rules which carry metadata. 'isObject' is the
+ * check objectOf starts with.
+ */
+export type RuleName =
+    | 'isString'
+    | 'isNumber'
+    | 'isBoolean'
+    | 'isInteger'
+    | 'isDate'
+    | 'minDate'
+    | 'maxDate'
+    | 'isBinary'
+    | 'minByteLength'
+    | 'maxByteLength'
+    | 'isRegExp'
+    | 'isPromise'
+    | 'instanceOf'
+    | 'isObject'
+    | 'matches'
+    | 'isEmail'
+    | 'isUUID'
+    | 'isURL'
+    | 'isISO8601'
+    | 'minLength'
+    | 'maxLength'
+    | 'min'
+    | 'max'
+    | 'inRange'
+    | 'isOneOf'
+
+/**
+ * A built-in rule, with the arguments it was created with as params
+ */
+export interface RuleMetadata {
+    kind: 'rule'
+    rule: RuleName
+    params: ErrorParams
+}
+
+/**
+ * A ValidatorBuilder, with its rules in the order they were declared
+ */
+export interface BuilderMetadata {
+    kind: 'builder'
+    rules: ValidatorMetadata[]
+    properties: { [key: string]: ValidatorMetadata[] }
+    asyncRules: ValidatorMetadata[]
+    asyncProperties: { [key: string]: ValidatorMetadata[] }
+    // Left out when the builder follows the policy of the builder it's nested in
+    unknownKeys?: UnknownKeyPolicy
+    // Only set for defaults given as a value, rather than a function
+    default?: any
+    hasDefault: boolean
+    optional: boolean
+    nullable: boolean
+    preprocessors: number
+    transforms: number
+}
+
+export interface ArrayMetadata {
+    kind: 'array'
+    element: ValidatorMetadata
+    minLength?: number
+    maxLength?: number
+    // 'key' when elements are compared by a key function
+    unique?: 'identity' | 'key'
+}
+
+export interface TupleMetadata {
+    kind: 'tuple'
+    elements: ValidatorMetadata[]
+}
+
+export interface RecordMetadata {
+    kind: 'record'
+    key?: ValidatorMetadata
+    value: ValidatorMetadata
+    minLength?: number
+    maxLength?: number
+}
+
+export interface MapMetadata {
+    kind: 'map'
+    key: ValidatorMetadata
+    value: ValidatorMetadata
+    minLength?: number
+    maxLength?: number
+}
+
+export interface SetMetadata {
+    kind: 'set'
+    element: ValidatorMetadata
+    minLength?: number
+    maxLength?: number
+}
+
+export interface OneOfMetadata {
+    kind: 'oneOf'
+    options: ValidatorMetadata[]
+}
+
+export interface AllOfMetadata {
+    kind: 'allOf'
+    validators: ValidatorMetadata[]
+}
+
+export interface DiscriminatedMetadata {
+    kind: 'discriminated'
+    key: string
+    mapping: { [tag: string]: ValidatorMetadata }
+}
+
+export interface WhenMetadata {
+    kind: 'when'
+    predicate: ValidatorMetadata
+    then: ValidatorMetadata
+    else?: ValidatorMetadata
+}
+
+/**
+ * A validator built by lazy. Its target is only described on request, as it
+ * may contain this validator again.
+ */
+export interface LazyMetadata {
+    kind: 'lazy'
+    name?: string
+    resolve: () => Function
+}
+
+export interface NullableMetadata {
+    kind: 'nullable'
+    validator: ValidatorMetadata
+}
+
+/**
+ * A validator built by fromJsonSchema, described by the schema it came from
+ */
+export interface JsonSchemaMetadata {
+    kind: 'jsonSchema'
+    schema: any
+}
+
+/**
+ * A validator with no metadata, such as a plain function passed to withRule.
+ * Nothing is known about what it checks.
+ */
+export interface CustomMetadata {
+    kind: 'custom'
+}
+
+/**
+ * Describes what a validator checks, as a tree mirroring how it was built
+ */
+export type ValidatorMetadata =
+    | RuleMetadata
+    | BuilderMetadata
+    | ArrayMetadata
+    | TupleMetadata
+    | RecordMetadata
+    | MapMetadata
+    | SetMetadata
+    | OneOfMetadata
+    | AllOfMetadata
+    | DiscriminatedMetadata
+    | WhenMetadata
+    | LazyMetadata
+    | NullableMetadata
+    | JsonSchemaMetadata
+    | CustomMetadata
+
+// Metadata is described lazily, so that it only costs anything when asked for
+const descriptions = new WeakMap<Function, () => ValidatorMetadata>()
+
+/**
+ * Attaches metadata to a validator, replacing any it already had
+ */
+export function withMetadata<V extends Function>(validator: V, describe: () => ValidatorMetadata): V {
+    descriptions.set(validator, describe)
+    return validator
+}
+
+/**
+ * Returns the metadata describing what a validator checks. Validators built
+ * from the built-in rules, combinators and ValidatorBuilder all have
+ * metadata, anything else is described as 'custom'.
+ */
+export function metadataOf(validator: Function): ValidatorMetadata {
+    const describe = descriptions.get(validator)
+    return describe !== undefined ? describe() : { kind: 'custom' }
+}
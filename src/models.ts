@@ -2,6 +2,25 @@
 export type ObjectPath = string
 export type ErrorMessage = string
 
+/**
+ * A stable, machine readable identifier for a kind of validation failure,
+ * e.g. 'string.tooShort'. Unlike error messages, codes never change, so they
+ * are safe to branch on and to use as keys in message catalogs.
+ */
+export type ErrorCode = string
+
+/**
+ * Details of a validation failure that a message may refer to,
+ * e.g. { min: 3, actual: 1 } for 'string.tooShort'
+ */
+export type ErrorParams = { [name: string]: any }
+
+/**
+ * Binary data: an ArrayBuffer, or a view of one such as a Uint8Array, a
+ * Node.js Buffer or a DataView
+ */
+export type Binary = ArrayBuffer | ArrayBufferView
+
 /**
  * Represents a failure in validating that an object conforms to a type
  */
@@ -40,6 +59,28 @@ export interface ValidationError {
      * A string representing the error message
      */
     error: ErrorMessage
+
+    /**
+     * Identifies the kind of failure. Set by all of the built-in rules and
+     * combinators, and by validatorFor when a code is passed to it.
+     */
+    code?: ErrorCode
+
+    /**
+     * Details of the failure, which message catalogs may interpolate
+     */
+    params?: ErrorParams
+
+    /**
+     * The value that failed validation
+     */
+    value?: any
+
+    /**
+     * For errors from a union that matched none of its alternatives, the
+     * errors produced by each alternative, in the order they were declared
+     */
+    branches?: ValidationError[][]
 }
 
 /**
@@ -81,16 +122,167 @@ export type Validator<T> = (
     path?: ObjectPath
 ) => value is T
 
+/**
+ * Represents a validator whose check can't be completed synchronously, e.g.
+ * because it needs to look something up in a database. Like a Validator it
+ * appends errors to the errorCollector, but resolves to whether the value
+ * was valid rather than acting as a type guard.
+ *
+ * Synchronous Validators can be used anywhere an AsyncValidator is expected.
+ */
+export type AsyncValidator<T> = (
+    value: any,
+    errorCollector?: ValidationError[],
+    path?: ObjectPath
+) => Promise<boolean>
+
+/**
+ * Extracts the type checked by a validator, so that types can be derived
+ * from validators rather than declared twice
+ *
+ * ```
+ * const engineValidator = objectOf({ type: isString(), maxAcceleration: isNumber() })
+ * type Engine = Infer<typeof engineValidator>
+ * // { type: string, maxAcceleration: number }
+ * ```
+ */
+export type Infer<V> = V extends Validator<infer T> ? T : never
+
+/**
+ * Extracts the type of value a validator produces when parsing. This differs
+ * from Infer for validators with transforms, e.g. for
+ * `Coerce.string().transform(x => x.length)` Infer gives string, but InferOutput
+ * gives number. For plain validators the two are the same.
+ */
+export type InferOutput<V> = V extends ValidatorBuilder<any, infer O> ? O : Infer<V>
+
+declare const BRAND: unique symbol
+
+/**
+ * Marks a type as having passed a validator, e.g. `type Email = string & Brand<'Email'>`.
+ * Values only get a branded type from a validator built with `brand` or
+ * `refine` (or a cast), so a function taking an Email can't be handed an
+ * unchecked string. Brands only exist at compile time, and a type may carry
+ * several of them.
+ */
+export type Brand<B extends string> = { readonly [BRAND]: { readonly [K in B]: true } }
+
+/**
+ * The output of a builder once its checked type T is narrowed to R. An
+ * output that differs from T, because of a transform, is left as it is.
+ */
+export type RefinedOutput<T, O, R> = [O] extends [T] ? [T] extends [O] ? R : O : O
+
 /**
  * Represents a validation function checking some condition on a value
  */
 export type Check = (value: any) => boolean
 
+/**
+ * Represents an asynchronous validation function checking some condition on a value
+ */
+export type AsyncCheck = (value: any) => Promise<boolean>
+
+/**
+ * Represents a function that converts a raw input, e.g. the string '470' from
+ * a query string, into the form a validator expects before it is checked.
+ * Values that can't be converted should be returned unchanged, so that the
+ * validator reports them.
+ */
+export type Preprocessor = (value: any) => any
+
 /**
  * Represents a function that builds error messages off of a value
  */
 export type ErrorMessageBuilder = (value: any) => ErrorMessage
 
+/**
+ * Represents a function that picks the ErrorCode for a value that failed a check
+ */
+export type ErrorCodeBuilder = (value: any) => ErrorCode
+
+/**
+ * Represents a function that builds the ErrorParams for a value that failed a check
+ */
+export type ErrorParamsBuilder = (value: any) => ErrorParams
+
+/**
+ * Turns an error into a message for the given locale. See createMessageFormatter.
+ */
+export type MessageFormatter = (error: ValidationError, locale?: string) => ErrorMessage
+
+/**
+ * Options controlling how much of a value is checked once errors are found.
+ * By default every rule runs, and every error is reported.
+ */
+export interface RunOptions {
+    /**
+     * Stops at the first rule that fails, reporting only its errors
+     */
+    abortEarly?: boolean
+
+    /**
+     * Stops once this many errors have been found, and reports at most this many
+     */
+    maxErrors?: number
+
+    /**
+     * Once a rule for a property, or for the value itself, has failed, skips
+     * the remaining rules for it. E.g. a length rule isn't run on a value that
+     * already failed to be a string.
+     */
+    skipFailedFields?: boolean
+}
+
+/**
+ * Options controlling how safeParse and validateAsync run, and report errors
+ */
+export interface ParseOptions extends RunOptions {
+    /**
+     * Rewrites the message of every error using this formatter
+     */
+    messages?: MessageFormatter
+
+    /**
+     * The locale passed to the formatter
+     */
+    locale?: string
+}
+
+/**
+ * Controls what a validator does with properties of an object that no rule
+ * was declared for
+ *
+ * - 'passthrough' ignores them, and is the default
+ * - 'strict' reports a ValidationError at the path of each unknown property
+ * - 'strip' accepts them, but leaves them out of the value returned by safeParse
+ *
+ * A policy also applies to objects nested in the one its validator checks,
+ * including those in arrays and records, whose validators don't set a
+ * policy of their own. Setting 'strict' on the outermost validator is enough
+ * to reject unknown properties at every depth, while a nested validator
+ * setting 'passthrough' accepts them again below it. Validators passed to
+ * allOf, discriminated and when only check part of an object, so they don't
+ * follow the policy of the validator they're nested in.
+ */
+export type UnknownKeyPolicy = 'passthrough' | 'strict' | 'strip'
+
+/**
+ * The outcome of parsing a value with a validator. When the value is valid,
+ * `value` holds the parsed output, which may differ from the input, e.g. when
+ * unknown properties have been stripped.
+ */
+export type ParseResult<T> =
+    | { valid: true, value: T, errors: ValidationError[] }
+    | { valid: false, errors: ValidationError[] }
+
+export interface AsyncValidationOptions extends ParseOptions {
+    /**
+     * The maximum number of asynchronous rules to run at once. Unlimited by default.
+     */
+    concurrency?: number
+}
+
 /**
  * A validator that also implements the builder pattern, allowing us
  * to define validators elegantly through chained function calls. 
@@ -110,15 +302,169 @@ export type ErrorMessageBuilder = (value: any) => ErrorMessage
  *     .withSubValidator('socialSecurityNumber', isSocialSecurityNumber)
  * 
  * ValidatorBuilders should only be instantiated via the factory function validatorFor
+ *
+ * T is the type the builder checks for when used as a type guard, and O the
+ * type of value it produces when parsing, which only differs from T once a
+ * transform has been added.
+ *
+ * Asynchronous rules are only run by validateAsync. When a builder is called
+ * as a type guard, or through safeParse, parse or assertValid, and reaches an
+ * asynchronous rule, it reports the value invalid with an 'async.required'
+ * error, rather than vouching for a value that the rule may reject.
  */
-export interface ValidatorBuilder<T> extends Validator<T> {
+export interface ValidatorBuilder<T, O = T> extends Validator<T> {
+
+    withRule(rule: Validator<T>): ValidatorBuilder<T, O>
+
+    withRule(check: Check, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T, O>
+
+    withRuleFor<K extends keyof T & string>(key: K, rule: Validator<T[K]>): ValidatorBuilder<T, O>
+
+    withRuleFor<K extends keyof T & string>(key: K, check: Check, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T, O>
+
+    /**
+     * Adds a rule checking the whole value, usually a relationship between
+     * several of its fields, which reports its error at `path` relative to the
+     * value rather than at the value itself. Pass several paths to report the
+     * error at each of them.
+     *
+     * ```
+     * validatorFor<SpaceshipEngine>()
+     *     .withRuleAt(
+     *         'maxAcceleration',
+     *         x => !x.safeInAtmosphere || x.maxAcceleration < 1000,
+     *         x => 'Engines that are safe in atmosphere must accelerate at less than 1000'
+     *     )
+     * ```
+     */
+    withRuleAt(path: ObjectPath | ObjectPath[], check: Check, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T, O>
+
+    /**
+     * Sets what the validator does with properties that no withRuleFor rule
+     * was declared for. Nested object validators which don't set a policy
+     * follow this one.
+     */
+    withUnknownKeys(policy: UnknownKeyPolicy): ValidatorBuilder<T, O>
+
+    /**
+     * Reads properties through the prototype chain rather than only from the
+     * value's own properties, so that rules for the getters and methods of
+     * class instances check them instead of reporting them missing.
+     * instanceOf turns this on.
+     */
+    withInheritedProperties(): ValidatorBuilder<T, O>
+
+    /**
+     * Adds a rule which narrows the checked type to R, usually a branded
+     * type, so that values are only known to be R once they have passed it.
+     * The built-in Rules take the type they check for as a type parameter:
+     *
+     * ```
+     * type Email = string & Brand<'Email'>
+     * const emailValidator = validatorFor<string>().refine(Rules.isEmail<Email>())
+     * // ValidatorBuilder<Email>
+     * ```
+     */
+    refine<R extends T>(rule: Validator<R>): ValidatorBuilder<R, RefinedOutput<T, O, R>>
+
+    refine<R extends T>(check: (value: T) => value is R, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<R, RefinedOutput<T, O, R>>
+
+    /**
+     * Brands the checked type without adding a rule, vouching that the rules
+     * declared so far are what the brand stands for:
+     *
+     * ```
+     * const positiveIntValidator = validatorFor<number>()
+     *     .withRule(Rules.isInteger())
+     *     .withRule(Rules.min(1))
+     *     .brand<'PositiveInt'>()
+     * // ValidatorBuilder<number & Brand<'PositiveInt'>>
+     * ```
+     *
+     * Rules added afterwards check the branded type, which the built-in
+     * Rules accept. A default has to be branded too, so set it beforehand.
+     */
+    brand<B extends string>(): ValidatorBuilder<T & Brand<B>, RefinedOutput<T, O, T & Brand<B>>>
+
+    /**
+     * Adds a rule which is only run by validateAsync, after the synchronous rules
+     * have passed. Anywhere else, once the synchronous rules have passed, the
+     * builder reports an 'async.required' error, as the rule can't be run.
+     */
+    withAsyncRule(rule: AsyncValidator<T> | Validator<T>): ValidatorBuilder<T, O>
+
+    withAsyncRule(check: AsyncCheck, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T, O>
+
+    withAsyncRuleFor<K extends keyof T & string>(key: K, rule: AsyncValidator<T[K]> | Validator<T[K]>): ValidatorBuilder<T, O>
+
+    withAsyncRuleFor<K extends keyof T & string>(key: K, check: AsyncCheck, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T, O>
+
+    /**
+     * Converts raw input before it is checked. Preprocessors run in the order
+     * they were added, and only when parsing, never when the builder is
+     * called directly as a type guard. See Coerce for common conversions.
+     */
+    preprocess(preprocessor: Preprocessor): ValidatorBuilder<T, O>
+
+    /**
+     * Sets a value to use when parsing undefined, including missing
+     * properties of an object. Pass a function to build a fresh value for
+     * every parse, e.g. `.default(() => [])`. The default is checked by
+     * every rule, like any other value.
+     */
+    default(value: T | (() => T)): ValidatorBuilder<T, O>
 
-    withRule(rule: Validator<T>): ValidatorBuilder<T>
+    /**
+     * Maps the value produced by parsing, once it has passed every rule.
+     * Transforms run in the order they were added.
+     *
+     * ```
+     * const tagsValidator = Coerce.string()
+     *     .transform(x => x.split(','))
+     * // ValidatorBuilder<string, string[]>
+     * ```
+     */
+    transform<U>(fn: (value: O) => U): ValidatorBuilder<T, U>
 
-    withRule(check: Check, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T>
+    /**
+     * Accepts undefined, including a missing property of an object, without
+     * running any rules. When parsing, a default takes precedence.
+     *
+     * Call it last, once every rule has been added, as rules for properties
+     * can't be added to a builder that may hold undefined.
+     */
+    optional(): ValidatorBuilder<T | undefined, O | undefined>
 
-    withRuleFor<K extends keyof T & string>(key: K, rule: Validator<T[K]>): ValidatorBuilder<T>
+    /**
+     * Accepts null without running any rules. Call it last, as for optional.
+     */
+    nullable(): ValidatorBuilder<T | null, O | null>
+
+    /**
+     * Accepts both null and undefined, as optional and nullable together
+     */
+    nullish(): ValidatorBuilder<T | null | undefined, O | null | undefined>
 
-    withRuleFor<K extends keyof T & string>(key: K, check: Check, errorMessageBuilder: ErrorMessageBuilder): ValidatorBuilder<T>
+    /**
+     * Validates a value, returning the parsed output along with any errors
+     * rather than acting as a type guard. Preprocessors, defaults and
+     * transforms are applied. Asynchronous rules aren't run, so values
+     * reaching them are invalid: use validateAsync for those.
+     */
+    safeParse(value: any, options?: ParseOptions): ParseResult<O>
+
+    /**
+     * Like safeParse, but returns the parsed output directly, and throws a
+     * ValidationException holding the errors if the value is invalid,
+     * including when asynchronous rules are reached
+     */
+    parse(value: any, options?: ParseOptions): O
+
+    /**
+     * Validates a value, running both synchronous and asynchronous rules,
+     * including those of nested validators. Independent asynchronous rules
+     * run concurrently.
+     */
+    validateAsync(value: any, options?: AsyncValidationOptions): Promise<ParseResult<O>>
 }
 
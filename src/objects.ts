@@ -0,0 +1,323 @@
+import {
+    ErrorMessageBuilder,
+    Infer,
+    InferOutput,
+    ObjectPath,
+    ValidationError,
+    Validator,
+    ValidatorBuilder
+} from './models'
+import { validatorFor } from './validatorfor'
+import { metadataOf, withMetadata } from './metadata'
+import { AsyncBuilderRule, BuilderRule, BuilderState, builderFromState, builderStates } from './builderstate'
+
+/**
+ * A mapping from property names to the validators for those properties
+ */
+export type Shape = { [key: string]: Validator<any> }
+
+// The keys of a Shape whose validators accept undefined, e.g. built with optional(). Validators for any are left required.
+type OptionalKeys<S extends Shape> = {
+    [K in keyof S]: 0 extends (1 & Infer<S[K]>) ? never : undefined extends Infer<S[K]> ? K : never
+}[keyof S]
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>
+
+// Flattens an intersection into a single object type, so that it reads nicely in editors
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+/**
+ * The type of object described by a Shape. Properties whose validators
+ * accept undefined are optional.
+ */
+export type InferShape<S extends Shape> = Simplify<
+    & { [K in RequiredKeys<S>]: Infer<S[K]> }
+    & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>
+
+/**
+ * The type of object produced when parsing with the validator for a Shape
+ */
+export type InferShapeOutput<S extends Shape> = Simplify<
+    & { [K in RequiredKeys<S>]: InferOutput<S[K]> }
+    & { [K in OptionalKeys<S>]?: InferOutput<S[K]> }
+>
+
+/**
+ * A Shape with exactly one validator for every property of T, including
+ * optional properties. Used to make sure that a validator and the interface it
+ * checks can't drift apart: adding a property to T without adding a validator
+ * for it is a compile error, as is a validator for a property T doesn't have.
+ */
+export type ShapeFor<T> = { [K in keyof T]-?: Validator<T[K]> }
+
+function isObjectWith(errorMessageBuilder: ErrorMessageBuilder): Validator<any> {
+    const check = (x: any) => typeof x === 'object' && x !== null && !Array.isArray(x)
+    return withMetadata(
+        validatorFor<any>(check, errorMessageBuilder, 'object.type', (x) => ({ actualType: x === null ? 'null' : typeof x })),
+        () => ({ kind: 'rule', rule: 'isObject', params: {} })
+    )
+}
+
+// Shared by every objectOf without its own message, so that merge can tell when two check the same thing
+const defaultIsObject = isObjectWith((x) => `Expected an object, but got ${x === null ? 'null' : `type ${typeof x}`}`)
+
+/**
+ * Builds a validator for objects from a shape literal, checking that the value
+ * is an object and that each property passes its validator. The type checked
+ * is inferred from the shape.
+ *
+ * ```
+ * const spaceshipValidator = objectOf({
+ *     name: isString(),
+ *     crewCount: isNumber(),
+ *     engines: objectOf({
+ *         type: isString(),
+ *         maxAcceleration: isNumber()
+ *     })
+ * })
+ * type Spaceship = Infer<typeof spaceshipValidator>
+ * ```
+ *
+ * The result is an ordinary ValidatorBuilder, so further rules can be chained on.
+ * When parsing, each property is replaced by the output of its validator.
+ */
+export function objectOf<S extends Shape>(shape: S, errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<InferShape<S>, InferShapeOutput<S>> {
+    const isObject = errorMessageBuilder !== undefined ? isObjectWith(errorMessageBuilder) : defaultIsObject
+    let builder = validatorFor<InferShape<S>>().withRule(isObject)
+    Object.keys(shape).forEach(key => {
+        builder = builder.withRuleFor(key as keyof InferShape<S> & string, shape[key])
+    })
+    return builder as ValidatorBuilder<InferShape<S>, any>
+}
+
+/**
+ * Builds a validator for an existing interface from a shape literal. Unlike
+ * objectOf, the shape is checked against T at compile time and must cover
+ * every one of T's properties.
+ *
+ * ```
+ * const spaceshipValidator = objectFor<Spaceship>({
+ *     name: isString(),
+ *     crewCount: isNumber(),
+ *     // Compile error if 'engines' is left out
+ *     engines: engineValidator
+ * })
+ * ```
+ */
+export function objectFor<T>(shape: ShapeFor<T>, errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<T> {
+    return objectOf(shape as Shape, errorMessageBuilder) as ValidatorBuilder<any>
+}
+
+/**
+ * Like Partial, but also makes the properties of nested objects optional.
+ * Arrays, Dates, Maps and Sets are left as they are.
+ */
+export type DeepPartial<T> = T extends any[] | Date | Map<any, any> | Set<any> | Function
+    ? T
+    : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T
+
+function stateOf(validator: Validator<any>, derivation: string): BuilderState {
+    const state = builderStates.get(validator)
+    if (state === undefined) {
+        throw new Error(`${derivation} needs a validator built with objectOf or validatorFor`)
+    }
+    return state
+}
+
+// Built-in rules for the whole object, such as objectOf's check that the value is an
+// object. Other rules for the whole object may rely on properties that are now optional or gone.
+function isBuiltInRule(rule: BuilderRule | AsyncBuilderRule): boolean {
+    return rule.key === undefined && metadataOf(rule.validator).kind === 'rule'
+}
+
+// The properties a withRuleAt rule reports its errors at, e.g. 'engines' for 'engines[0].type'
+function targetedKeys(rule: BuilderRule | AsyncBuilderRule): string[] | undefined {
+    const targets = (rule as BuilderRule).targets
+    return targets !== undefined ? targets.map(target => target.split(/[.[]/)[0]) : undefined
+}
+
+// Whether a withRuleAt rule only targets properties the derived validator still checks
+function keepsTargets(rule: BuilderRule | AsyncBuilderRule, kept: (key: string) => boolean): boolean {
+    const keys = targetedKeys(rule)
+    return keys !== undefined && keys.every(kept)
+}
+
+/**
+ * Builds a new object validator out of rules taken from existing ones. The
+ * unknown key policy, preprocessors and the way properties are read carry
+ * over from `state`, while optional, nullable, defaults and transforms
+ * don't, as they were meant for the original object.
+ */
+function deriveFrom<T, O>(state: BuilderState, rules: BuilderRule[], asyncRules: AsyncBuilderRule[]): ValidatorBuilder<T, O> {
+    return builderFromState({
+        rules,
+        asyncRules,
+        unknownKeys: state.unknownKeys,
+        preprocessors: state.preprocessors,
+        transforms: [],
+        optional: false,
+        nullable: false,
+        inheritedProperties: state.inheritedProperties,
+        secret: false
+    }) as ValidatorBuilder<T, O>
+}
+
+// Wraps validators rather than calling optional on them: the builder optional returns has lost the description of
+// any built-in rule it was made from, and would still fill in a default for a missing property
+function optionalOf(validator: Validator<any>): Validator<any> {
+    const state = builderStates.get(validator)
+    if (state !== undefined && state.optional && state.defaultValue === undefined) {
+        return validator
+    }
+    return validatorFor<any>().withRule(validator).optional()
+}
+
+// A withRuleAt rule which only runs once the properties it targets are there, as they may now be missing
+function whenTargetsPresent(state: BuilderState, rule: BuilderRule): BuilderRule {
+    const keys = targetedKeys(rule) || []
+    const present = (x: any, key: string) => state.inheritedProperties ? key in x : Object.prototype.hasOwnProperty.call(x, key)
+    const validator = (x: any, errorCollector?: ValidationError[], path?: ObjectPath): x is any => {
+        return typeof x !== 'object' || x === null || !keys.every(key => present(x, key)) || rule.validator(x, errorCollector, path)
+    }
+    return { validator, targets: rule.targets }
+}
+
+function partialWith(state: BuilderState, property: (validator: Validator<any>) => Validator<any>): ValidatorBuilder<any> {
+    const rules = state.rules
+        .filter(rule => rule.key !== undefined || isBuiltInRule(rule) || rule.targets !== undefined)
+        .map(rule => rule.key !== undefined
+            ? { key: rule.key, validator: optionalOf(property(rule.validator)) }
+            : rule.targets !== undefined ? whenTargetsPresent(state, rule) : rule)
+    // Properties only checked asynchronously are otherwise required
+    state.asyncRules.forEach(rule => {
+        if (rule.key !== undefined && !rules.some(syncRule => syncRule.key === rule.key)) {
+            rules.push({ key: rule.key, validator: validatorFor<any>().optional() })
+        }
+    })
+    return deriveFrom(state, rules, state.asyncRules.filter(rule => rule.key !== undefined))
+}
+
+/**
+ * Derives a validator from an object validator in which every property is
+ * optional, e.g. for the body of a PATCH request. Properties which are
+ * present are still checked by all of their rules.
+ *
+ * ```
+ * const spaceshipPatchValidator = partial(spaceshipValidator)
+ * // ValidatorBuilder<Partial<Spaceship>>
+ * ```
+ *
+ * Defaults aren't filled in for missing properties when parsing, so that
+ * applying the result as a patch doesn't overwrite fields with them. Rules
+ * added with withRuleAt are kept, but only run when the properties they
+ * report errors at are there. Other custom rules for the object as a whole,
+ * added with withRule or refine, are left out, as there's no telling which
+ * properties they rely on, and those may now be missing. Built-in ones like
+ * objectOf's check that the value is an object are kept.
+ */
+export function partial<T, O>(validator: ValidatorBuilder<T, O>): ValidatorBuilder<Partial<T>, Partial<O>> {
+    return partialWith(stateOf(validator, 'partial'), property => property)
+}
+
+/**
+ * Like partial, but also makes the properties of nested object validators
+ * optional. Elements of arrays and other collections are left as they are.
+ * Rules for the whole of nested objects are kept or left out as partial does.
+ */
+export function deepPartial<T, O>(validator: ValidatorBuilder<T, O>): ValidatorBuilder<DeepPartial<T>, DeepPartial<O>> {
+    const deepen = (property: Validator<any>): Validator<any> => {
+        const state = builderStates.get(property)
+        if (state === undefined || !state.rules.some(rule => rule.key !== undefined)) {
+            return property
+        }
+        const derived = partialWith(state, deepen)
+        return state.nullable ? derived.nullable() : derived
+    }
+    return partialWith(stateOf(validator, 'deepPartial'), deepen)
+}
+
+/**
+ * Derives a validator from an object validator which only checks the given
+ * properties, keeping all of their rules
+ *
+ * ```
+ * const renameValidator = pick(spaceshipValidator, ['name'])
+ * // ValidatorBuilder<Pick<Spaceship, 'name'>>
+ * ```
+ *
+ * Rules added with withRuleAt are kept when every property they report
+ * errors at is picked. Other custom rules for the object as a whole are left
+ * out, as they may read properties which weren't picked.
+ */
+export function pick<T, O, K extends keyof T & string>(validator: ValidatorBuilder<T, O>, keys: readonly K[]): ValidatorBuilder<Pick<T, K>, Pick<O, K & keyof O>> {
+    const state = stateOf(validator, 'pick')
+    const isPicked = (key: string) => keys.indexOf(key as K) !== -1
+    const picked = (rule: BuilderRule | AsyncBuilderRule) => rule.key !== undefined
+        ? isPicked(rule.key)
+        : isBuiltInRule(rule) || keepsTargets(rule, isPicked)
+    return deriveFrom(state, state.rules.filter(picked), state.asyncRules.filter(picked))
+}
+
+/**
+ * Derives a validator from an object validator which checks every property
+ * but the given ones
+ *
+ * ```
+ * const spaceshipSummaryValidator = omit(spaceshipValidator, ['engines'])
+ * // ValidatorBuilder<Omit<Spaceship, 'engines'>>
+ * ```
+ *
+ * Rules added with withRuleAt are kept unless they report errors at an
+ * omitted property. Other custom rules for the object as a whole are left
+ * out, as they may read the omitted properties.
+ */
+export function omit<T, O, K extends keyof T & string>(validator: ValidatorBuilder<T, O>, keys: readonly K[]): ValidatorBuilder<Omit<T, K>, Omit<O, K>> {
+    const state = stateOf(validator, 'omit')
+    const isKept = (key: string) => keys.indexOf(key as K) === -1
+    const kept = (rule: BuilderRule | AsyncBuilderRule) => rule.key !== undefined
+        ? isKept(rule.key)
+        : isBuiltInRule(rule) || keepsTargets(rule, isKept)
+    return deriveFrom(state, state.rules.filter(kept), state.asyncRules.filter(kept))
+}
+
+/**
+ * Derives a validator from an object validator with further properties,
+ * given as a shape literal like objectOf's. Properties which are already
+ * checked are replaced, along with all of their rules. Rules for the object
+ * as a whole, custom ones included, are all kept, and see the values of the
+ * replacing properties.
+ *
+ * ```
+ * const warshipValidator = extend(spaceshipValidator, { armament: arrayOf(isString()) })
+ * ```
+ */
+export function extend<T, O, S extends Shape>(validator: ValidatorBuilder<T, O>, shape: S): ValidatorBuilder<Simplify<Omit<T, keyof S> & InferShape<S>>, Simplify<Omit<O, keyof S> & InferShapeOutput<S>>> {
+    const state = stateOf(validator, 'extend')
+    const kept = (rule: BuilderRule | AsyncBuilderRule) => rule.key === undefined || !Object.prototype.hasOwnProperty.call(shape, rule.key)
+    const rules = state.rules.filter(kept).concat(Object.keys(shape).map(key => ({ key, validator: shape[key] })))
+    return deriveFrom(state, rules, state.asyncRules.filter(kept))
+}
+
+/**
+ * Combines two object validators into one checking the properties of both.
+ * Where both check a property, `second`'s rules replace `first`'s, and
+ * `second`'s unknown key policy applies, or `first`'s if `second` doesn't
+ * set one. Rules for the object as a whole are kept from both, custom ones
+ * included, and check the merged object.
+ */
+export function merge<T1, O1, T2, O2>(first: ValidatorBuilder<T1, O1>, second: ValidatorBuilder<T2, O2>): ValidatorBuilder<Simplify<Omit<T1, keyof T2> & T2>, Simplify<Omit<O1, keyof O2> & O2>> {
+    const firstState = stateOf(first, 'merge')
+    const secondState = stateOf(second, 'merge')
+    const replaced = (rule: BuilderRule | AsyncBuilderRule) => rule.key !== undefined && [...secondState.rules, ...secondState.asyncRules].some(other => other.key === rule.key)
+    // Both usually start with objectOf's check that the value is an object, which only needs to run once
+    const duplicated = (rule: BuilderRule) => rule.key === undefined && firstState.rules.some(other => other.key === undefined && other.validator === rule.validator)
+    const rules = firstState.rules.filter(rule => !replaced(rule)).concat(secondState.rules.filter(rule => !duplicated(rule)))
+    const asyncRules = firstState.asyncRules.filter(rule => !replaced(rule)).concat(secondState.asyncRules)
+    return deriveFrom({
+        ...secondState,
+        unknownKeys: secondState.unknownKeys !== undefined ? secondState.unknownKeys : firstState.unknownKeys,
+        preprocessors: [...firstState.preprocessors, ...secondState.preprocessors],
+        inheritedProperties: firstState.inheritedProperties || secondState.inheritedProperties
+    }, rules, asyncRules)
+}
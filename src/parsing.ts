@@ -0,0 +1,128 @@
+import {
+    ObjectPath,
+    RunOptions,
+    UnknownKeyPolicy,
+    ValidationError,
+    Validator
+} from './models'
+
+/**
+ * The result of running a validator in parsing mode: whether the value was
+ * valid, and the value it produces
+ */
+export interface Parsed<T> {
+    valid: boolean
+    value: T
+}
+
+/**
+ * A validator that returns the value it produces, rather than just whether
+ * the input was valid
+ */
+export type Parser<T> = (value: any, errorCollector?: ValidationError[], path?: ObjectPath) => Parsed<T>
+
+const parsers = new WeakMap<Function, Parser<any>>()
+
+// Whether validators are being run by a parse-style entry point. Coercions,
+// defaults and transforms only apply when parsing, so that a validator called
+// as a type guard only returns true for values that really are of its type.
+let parsing = false
+
+/**
+ * Runs fn with coercions, defaults and transforms enabled
+ */
+export function whileParsing<R>(fn: () => R): R {
+    const previous = parsing
+    parsing = true
+    try {
+        return fn()
+    } finally {
+        parsing = previous
+    }
+}
+
+export function isParsing(): boolean {
+    return parsing
+}
+
+// The unknown key policy of the nearest enclosing builder which sets one. Nested
+// builders declaring properties follow it, unless they set a policy of their own.
+let unknownKeys: UnknownKeyPolicy | undefined
+
+/**
+ * Runs fn with the given unknown key policy applying to nested builders
+ * which don't set their own
+ */
+export function whileInheritingUnknownKeys<R>(policy: UnknownKeyPolicy | undefined, fn: () => R): R {
+    const previous = unknownKeys
+    unknownKeys = policy
+    try {
+        return fn()
+    } finally {
+        unknownKeys = previous
+    }
+}
+
+export function inheritedUnknownKeys(): UnknownKeyPolicy | undefined {
+    return unknownKeys
+}
+
+// The options of the safeParse or validateAsync call currently running, and the errors it has collected
+let run: { options: RunOptions, errors: ValidationError[] } | undefined
+
+/**
+ * Runs fn with the given RunOptions applying to every validator it reaches.
+ * `errors` is the collector of the outermost validator, used to count errors
+ * for maxErrors.
+ */
+export function whileRunning<R>(options: RunOptions, errors: ValidationError[], fn: () => R): R {
+    const previous = run
+    run = { options, errors }
+    try {
+        return fn()
+    } finally {
+        run = previous
+    }
+}
+
+export function runOptions(): RunOptions {
+    return run !== undefined ? run.options : {}
+}
+
+/**
+ * Whether a validator should stop checking a value, given whether it's still
+ * valid so far. Without an error collector nobody will see any more errors,
+ * so there's no point carrying on once the value is invalid.
+ */
+export function shouldStop(valid: boolean, errorCollector?: ValidationError[]): boolean {
+    if (!valid && (errorCollector === undefined || runOptions().abortEarly)) {
+        return true
+    }
+    const maxErrors = runOptions().maxErrors
+    return run !== undefined && maxErrors !== undefined && run.errors.length >= maxErrors
+}
+
+/**
+ * Builds a validator from a parser. Combinators use parseWith on their
+ * children, so that values produced by nested validators (stripped objects
+ * for example) make it into the value produced at the top level.
+ */
+export function fromParser<T>(parser: Parser<T>): Validator<T> {
+    const validator = (value: any, errorCollector?: ValidationError[], path?: ObjectPath): value is T => {
+        return parser(value, errorCollector, path).valid
+    }
+    parsers.set(validator, parser)
+    return validator
+}
+
+/**
+ * Runs any validator in parsing mode. Validators which weren't built from a
+ * parser produce their input unchanged.
+ */
+export function parseWith<T>(validator: Validator<T>, value: any, errorCollector?: ValidationError[], path?: ObjectPath): Parsed<T> {
+    const parser = parsers.get(validator)
+    if (parser !== undefined) {
+        return parser(value, errorCollector, path)
+    }
+    return { valid: !!validator(value, errorCollector, path), value }
+}
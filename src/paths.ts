@@ -0,0 +1,24 @@
+import { ObjectPath } from './models'
+
+/**
+ * Joins path segments into a single ObjectPath. String segments are
+ * joined with dots, and numeric segments are rendered as indexes, so
+ *
+ * joinObjectPaths('ship', 'engines', 3, 'type')
+ *
+ * produces 'ship.engines[3].type'. Undefined and empty segments are ignored.
+ */
+export function joinObjectPaths(...paths: (string | number | undefined)[]): ObjectPath {
+    let joined = ''
+    paths.forEach(segment => {
+        if (segment === undefined || segment === '') {
+            return
+        }
+        if (typeof segment === 'number') {
+            joined += `[${segment}]`
+        } else {
+            joined += joined === '' ? segment : `.${segment}`
+        }
+    })
+    return joined
+}
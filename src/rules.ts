@@ -1,15 +1,348 @@
 import {
+    Binary,
+    ErrorCode,
+    ErrorCodeBuilder,
     ErrorMessageBuilder,
+    ErrorParams,
     Validator,
+    ValidatorBuilder,
 } from './models';
 import {
     validatorFor
 } from './validatorfor'
+import { RuleName, withMetadata } from './metadata'
+import { byteLengthOf, isBinaryObject, isDateObject, isPromiseObject, isRegExpObject } from './builtins'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/[^\s/?#]+[^\s]*$/i
+const ISO_8601_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+function describeValue(x: any): string {
+    return typeof x === 'string' ? `'${x}'` : String(x)
+}
+
+function typeParams(x: any): ErrorParams {
+    return { actualType: x === null ? 'null' : typeof x }
+}
+
+function lengthOf(x: any): number | undefined {
+    return x !== null && x !== undefined && typeof x.length === 'number' ? x.length : undefined
+}
+
+function describedAs<T>(validator: Validator<T>, rule: RuleName, params: ErrorParams = {}): Validator<T> {
+    return withMetadata(validator, () => ({ kind: 'rule', rule, params }))
+}
+
+// Length rules apply to both strings and arrays, and get codes like 'string.tooShort' and 'array.tooShort'
+function lengthCode(failure: string): ErrorCodeBuilder {
+    return (x: any) => {
+        if (typeof x === 'string') {
+            return `string.${failure}`
+        }
+        return lengthOf(x) === undefined ? 'length.type' : `array.${failure}`
+    }
+}
 
 export function isString<T extends string>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
     const defaultEmb: ErrorMessageBuilder = (x) => `Expected value of type string, but got type ${typeof x}`
     const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
     const check = (x: any) => typeof x === 'string'
-    return validatorFor<T>(check, emb)
+    return describedAs(validatorFor<T>(check, emb, 'string.type', typeParams), 'isString')
+}
+
+/**
+ * Checks that a value is a number. NaN is not considered a number.
+ */
+export function isNumber<T extends number>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => typeof x === 'number'
+        ? `Expected a number, but got NaN`
+        : `Expected value of type number, but got type ${typeof x}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'number' && !isNaN(x)
+    return describedAs(validatorFor<T>(check, emb, 'number.type', typeParams), 'isNumber')
+}
+
+export function isBoolean<T extends boolean>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected value of type boolean, but got type ${typeof x}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'boolean'
+    return describedAs(validatorFor<T>(check, emb, 'boolean.type', typeParams), 'isBoolean')
+}
+
+/**
+ * Checks that a value is a finite number with no fractional part
+ */
+export function isInteger<T extends number>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected an integer, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'number' && isFinite(x) && Math.floor(x) === x
+    return describedAs(validatorFor<T>(check, emb, 'number.integer'), 'isInteger')
+}
+
+function isValidDate(x: any): x is Date {
+    return isDateObject(x) && !isNaN(x.getTime())
+}
+
+function describeDate(x: any): string {
+    return isValidDate(x) ? x.toISOString() : isDateObject(x) ? 'an invalid Date' : describeValue(x)
+}
+
+/**
+ * Checks that a value is a Date instance representing a real point in time,
+ * so `new Date('not a date')` is rejected. Dates from other realms, such as
+ * iframes or vm contexts, are accepted too.
+ */
+export function isDate(errorMessageBuilder?: ErrorMessageBuilder): Validator<Date> {
+    const defaultEmb: ErrorMessageBuilder = (x) => isDateObject(x)
+        ? `Expected a valid date, but got an invalid Date`
+        : `Expected a Date, but got type ${typeof x}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const code = (x: any) => isDateObject(x) ? 'date.invalid' : 'date.type'
+    return describedAs(validatorFor<Date>(isValidDate, emb, code, typeParams), 'isDate')
+}
+
+/**
+ * Checks that a value is a valid Date no earlier than `minimum`
+ */
+export function minDate<T extends Date>(minimum: Date, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a date no earlier than ${minimum.toISOString()}, but got ${describeDate(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => isValidDate(x) && x.getTime() >= minimum.getTime()
+    const params = { min: minimum.toISOString() }
+    return describedAs(validatorFor<T>(check, emb, 'date.tooEarly', () => params), 'minDate', params)
+}
+
+/**
+ * Checks that a value is a valid Date no later than `maximum`
+ */
+export function maxDate<T extends Date>(maximum: Date, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a date no later than ${maximum.toISOString()}, but got ${describeDate(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => isValidDate(x) && x.getTime() <= maximum.getTime()
+    const params = { max: maximum.toISOString() }
+    return describedAs(validatorFor<T>(check, emb, 'date.tooLate', () => params), 'maxDate', params)
+}
+
+/**
+ * Checks that a value is binary data: an ArrayBuffer, or a view of one such
+ * as a Uint8Array, a Node.js Buffer or a DataView
+ */
+export function isBinary<T extends Binary>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected binary data, but got ${x === null ? 'null' : `type ${typeof x}`}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    return describedAs(validatorFor<T>(isBinaryObject, emb, 'binary.type', typeParams), 'isBinary')
+}
+
+// Byte length rules get 'binary.type' for values that aren't binary data at all
+function byteLengthCode(failure: string): ErrorCodeBuilder {
+    return (x: any) => isBinaryObject(x) ? `binary.${failure}` : 'binary.type'
+}
+
+/**
+ * Checks that a value is binary data (see isBinary) of at least `min` bytes
+ */
+export function minByteLength<T extends Binary>(min: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => isBinaryObject(x)
+        ? `Expected at least ${min} bytes, but got ${x.byteLength}`
+        : `Expected binary data, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => isBinaryObject(x) && x.byteLength >= min
+    return describedAs(validatorFor<T>(check, emb, byteLengthCode('tooShort'), (x) => ({ min, actual: byteLengthOf(x) })), 'minByteLength', { min })
+}
+
+/**
+ * Checks that a value is binary data (see isBinary) of at most `max` bytes
+ */
+export function maxByteLength<T extends Binary>(max: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => isBinaryObject(x)
+        ? `Expected at most ${max} bytes, but got ${x.byteLength}`
+        : `Expected binary data, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => isBinaryObject(x) && x.byteLength <= max
+    return describedAs(validatorFor<T>(check, emb, byteLengthCode('tooLong'), (x) => ({ max, actual: byteLengthOf(x) })), 'maxByteLength', { max })
 }
 
+/**
+ * Checks that a value is a regular expression. RegExps from other realms,
+ * such as iframes or vm contexts, are accepted too.
+ */
+export function isRegExp(errorMessageBuilder?: ErrorMessageBuilder): Validator<RegExp> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a RegExp, but got ${describeInstance(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    return describedAs(validatorFor<RegExp>(isRegExpObject, emb, 'regexp.type', typeParams), 'isRegExp')
+}
+
+/**
+ * Checks that a value is a Promise, including Promises from other realms.
+ * Other thenables are rejected, and what the Promise resolves to can't be
+ * checked until it settles.
+ */
+export function isPromise(errorMessageBuilder?: ErrorMessageBuilder): Validator<Promise<unknown>> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a Promise, but got ${describeInstance(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    return describedAs(validatorFor<Promise<unknown>>(isPromiseObject, emb, 'promise.type', typeParams), 'isPromise')
+}
+
+function describeInstance(x: any): string {
+    if (x === null || (typeof x !== 'object' && typeof x !== 'function')) {
+        return x === null ? 'null' : `type ${typeof x}`
+    }
+    const prototype = Object.getPrototypeOf(x)
+    const constructorName = prototype !== null && typeof prototype.constructor === 'function' ? prototype.constructor.name : ''
+    return constructorName !== '' && constructorName !== 'Object' ? `an instance of ${constructorName}` : 'a plain object'
+}
+
+/**
+ * Checks that a value is an instance of a class, narrowing it to the class's
+ * instance type. The builder returned reads properties through the prototype
+ * chain (see withInheritedProperties), so rules may check getters as well as
+ * fields:
+ *
+ * ```
+ * const spaceshipValidator = instanceOf(Spaceship)
+ *     .withRuleFor('name', isString())
+ *     .withRuleFor('displayName', isString()) // a getter
+ * ```
+ *
+ * Like the instanceof operator, this rejects instances of the same class
+ * loaded in another realm, such as an iframe.
+ */
+export function instanceOf<C extends abstract new (...args: any[]) => any>(Class: C, errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<InstanceType<C>> {
+    const className = Class.name || 'an anonymous class'
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected an instance of ${className}, but got ${describeInstance(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => x instanceof Class
+    const rule = describedAs(validatorFor<InstanceType<C>>(check, emb, 'object.instanceOf', () => ({ className })), 'instanceOf', { className })
+    return validatorFor<InstanceType<C>>().withRule(rule).withInheritedProperties()
+}
+
+/**
+ * Checks that a value is a string matching the given regular expression
+ */
+export function matches<T extends string>(pattern: RegExp, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    return describedAs(matchesWithCode<T>(pattern, 'string.pattern', errorMessageBuilder), 'matches', { pattern: pattern.source, flags: pattern.flags })
+}
+
+function matchesWithCode<T extends string>(pattern: RegExp, code: ErrorCode, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a string matching ${pattern}, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => {
+        if (typeof x !== 'string') {
+            return false
+        }
+        // Reset so that global and sticky patterns behave consistently between calls
+        pattern.lastIndex = 0
+        return pattern.test(x)
+    }
+    return validatorFor<T>(check, emb, code, () => ({ pattern: String(pattern) }))
+}
+
+export function isEmail<T extends string>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected an email address, but got ${describeValue(x)}`
+    return describedAs(matchesWithCode<T>(EMAIL_PATTERN, 'string.email', errorMessageBuilder || defaultEmb), 'isEmail')
+}
+
+export function isUUID<T extends string>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a UUID, but got ${describeValue(x)}`
+    return describedAs(matchesWithCode<T>(UUID_PATTERN, 'string.uuid', errorMessageBuilder || defaultEmb), 'isUUID')
+}
+
+/**
+ * Checks that a value is an absolute URL with a scheme, e.g. https://example.com/path
+ */
+export function isURL<T extends string>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a URL, but got ${describeValue(x)}`
+    return describedAs(matchesWithCode<T>(URL_PATTERN, 'string.url', errorMessageBuilder || defaultEmb), 'isURL')
+}
+
+// Date.parse rolls days past the end of the month over into the next, e.g. 2021-02-29 into March 1st
+function isCalendarDate(x: string): boolean {
+    const year = Number(x.slice(0, 4))
+    const month = Number(x.slice(5, 7))
+    const day = Number(x.slice(8, 10))
+    const isLeapYear = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0)
+    const daysInMonth = month === 2 ? (isLeapYear ? 29 : 28) : [4, 6, 9, 11].indexOf(month) !== -1 ? 30 : 31
+    return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth
+}
+
+/**
+ * Checks that a value is an ISO-8601 date (2020-11-05) or date-time
+ * (2020-11-05T13:45:00Z) string that refers to a real calendar date
+ */
+export function isISO8601<T extends string>(errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected an ISO-8601 date string, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'string' && ISO_8601_PATTERN.test(x) && isCalendarDate(x) && !isNaN(Date.parse(x))
+    return describedAs(validatorFor<T>(check, emb, 'string.iso8601'), 'isISO8601', { pattern: ISO_8601_PATTERN.source })
+}
+
+/**
+ * Checks that a string or array has at least `min` elements
+ */
+export function minLength<T extends { length: number }>(min: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => x !== null && x !== undefined && typeof x.length === 'number'
+        ? `Expected a length of at least ${min}, but got a length of ${x.length}`
+        : `Expected a value with a length, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => x !== null && x !== undefined && typeof x.length === 'number' && x.length >= min
+    return describedAs(validatorFor<T>(check, emb, lengthCode('tooShort'), (x) => ({ min, actual: lengthOf(x) })), 'minLength', { min })
+}
+
+/**
+ * Checks that a string or array has at most `max` elements
+ */
+export function maxLength<T extends { length: number }>(max: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => x !== null && x !== undefined && typeof x.length === 'number'
+        ? `Expected a length of at most ${max}, but got a length of ${x.length}`
+        : `Expected a value with a length, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => x !== null && x !== undefined && typeof x.length === 'number' && x.length <= max
+    return describedAs(validatorFor<T>(check, emb, lengthCode('tooLong'), (x) => ({ max, actual: lengthOf(x) })), 'maxLength', { max })
+}
+
+/**
+ * Checks that a value is a number greater than or equal to `minimum`
+ */
+export function min<T extends number>(minimum: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a number of at least ${minimum}, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'number' && x >= minimum
+    return describedAs(validatorFor<T>(check, emb, 'number.tooSmall', () => ({ min: minimum })), 'min', { min: minimum })
+}
+
+/**
+ * Checks that a value is a number less than or equal to `maximum`
+ */
+export function max<T extends number>(maximum: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a number of at most ${maximum}, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'number' && x <= maximum
+    return describedAs(validatorFor<T>(check, emb, 'number.tooBig', () => ({ max: maximum })), 'max', { max: maximum })
+}
+
+/**
+ * Checks that a value is a number between `minimum` and `maximum`, inclusive
+ */
+export function inRange<T extends number>(minimum: number, maximum: number, errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected a number between ${minimum} and ${maximum}, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => typeof x === 'number' && x >= minimum && x <= maximum
+    return describedAs(validatorFor<T>(check, emb, 'number.outOfRange', () => ({ min: minimum, max: maximum })), 'inRange', { min: minimum, max: maximum })
+}
+
+/**
+ * Checks that a value is one of a fixed set of values. Passing the values
+ * `as const` narrows to a union of literal types
+ *
+ * ```
+ * const isEngineType = isOneOf(['fusion', 'ion'] as const)
+ * // Validator<'fusion' | 'ion'>
+ * ```
+ */
+export function isOneOf<T extends string | number | boolean | null | undefined>(values: readonly T[], errorMessageBuilder?: ErrorMessageBuilder): Validator<T> {
+    const defaultEmb: ErrorMessageBuilder = (x) => `Expected one of ${values.map(describeValue).join(', ')}, but got ${describeValue(x)}`
+    const emb: ErrorMessageBuilder = errorMessageBuilder || defaultEmb
+    const check = (x: any) => values.indexOf(x) !== -1
+    return describedAs(validatorFor<T>(check, emb, 'enum.invalid', () => ({ options: values.slice() })), 'isOneOf', { options: values.slice() })
+}
@@ -1,55 +1,397 @@
 
 import {
+    ObjectPath,
     Validator,
     ValidationError,
     ValidatorBuilder,
     Check,
-    ErrorMessageBuilder
+    ErrorMessageBuilder,
+    ParseResult,
+    UnknownKeyPolicy,
+    AsyncValidator,
+    AsyncCheck,
+    AsyncValidationOptions,
+    ErrorCode,
+    ErrorCodeBuilder,
+    ErrorParamsBuilder,
+    ParseOptions,
+    Preprocessor,
+    RefinedOutput
 } from './models'
+import { joinObjectPaths } from './paths'
+import { Parsed, fromParser, inheritedUnknownKeys, isParsing, parseWith, runOptions, shouldStop, whileInheritingUnknownKeys, whileParsing, whileRunning } from './parsing'
+import { AsyncTask, asyncRequiredError, asyncValidatorFor, scheduleAsyncTasks, validateAsync } from './async'
+import { localizeErrors } from './messages'
+import { ValidationException } from './exceptions'
+import { ValidatorMetadata, metadataOf, withMetadata } from './metadata'
+import { CompileContext, withCompiler } from './compile'
+import { BuilderRule, BuilderState, builderStates, withBuilderFactory } from './builderstate'
 
+export function optionValidator<T>(baseValidator: Validator<T>): Validator<T | null> {
+    const validator = fromParser((x: any, errorCollector?: ValidationError[], path?: string): Parsed<T | null> => {
+        if (x === null) {
+            return { valid: true, value: null }
+        }
+        else {
+            return parseWith(baseValidator, x, errorCollector, path)
+        }
+    })
+    withCompiler(validator, (context) => {
+        const baseCheck = context.compile(baseValidator)
+        return (x: any) => x === null || baseCheck(x)
+    })
+    return withMetadata(validator, () => ({ kind: 'nullable', validator: metadataOf(baseValidator) }))
+}
+
+// Called through Object.prototype, as the value may have a null prototype or its own hasOwnProperty
+function hasProperty(x: any, key: string): boolean {
+    return x !== null && x !== undefined && Object.prototype.hasOwnProperty.call(x, key)
+}
 
-function joinObjectPaths(...paths: (string | undefined)[]) {
-    return paths.filter(x => x !== undefined).join('.')
+function hasField(state: BuilderState, x: any, key: string): boolean {
+    return state.inheritedProperties ? x !== null && x !== undefined && key in Object(x) : hasProperty(x, key)
 }
 
-function addRule<T>(baseValidator: Validator<T>, rule: Validator<T>) {
-    return (value: any, errorCollector?: ValidationError[], path?: string): value is T => {
-        const ruleResult = rule(value, errorCollector, path || "")
-        const baseValidatorResult = baseValidator(value, errorCollector, path || "")
+function acceptsMissing(validator: Validator<any>): boolean {
+    const state = builderStates.get(validator)
+    return state !== undefined && (state.optional || (isParsing() && state.defaultValue !== undefined))
+}
 
-        return !!(ruleResult && baseValidatorResult)
+function isObjectLike(x: any): boolean {
+    return x !== null && (typeof x === 'object' || typeof x === 'function')
+}
+
+function missingPropertyError(path: ObjectPath | undefined, key: string): ValidationError {
+    return {
+        path: joinObjectPaths(path, key),
+        error: `Missing required property '${key}'`,
+        code: 'object.required',
+        params: { key }
     }
 }
 
-export function optionValidator<T>(baseValidator: Validator<T>): Validator<T | null> {
-    return (x: any, errorCollector?: ValidationError[], path?: string): x is T | null => {
-        if (x === null) {
-            return true
+function declaredKeys(state: BuilderState): string[] {
+    const keys: string[] = []
+    const rules: { key?: string }[] = state.rules
+    rules.concat(state.asyncRules).forEach(rule => {
+        if (rule.key !== undefined && keys.indexOf(rule.key) === -1) {
+            keys.push(rule.key)
         }
-        else {
-            return baseValidator(x, errorCollector, path)
+    })
+    return keys
+}
+
+function describeState(state: BuilderState): ValidatorMetadata {
+    const properties: { [key: string]: ValidatorMetadata[] } = {}
+    const asyncProperties: { [key: string]: ValidatorMetadata[] } = {}
+    const rules: ValidatorMetadata[] = []
+    const asyncRules: ValidatorMetadata[] = []
+    state.rules.forEach(rule => {
+        if (rule.key === undefined) {
+            rules.push(metadataOf(rule.validator))
+        } else {
+            properties[rule.key] = (properties[rule.key] || []).concat([metadataOf(rule.validator)])
+        }
+    })
+    state.asyncRules.forEach(rule => {
+        if (rule.key === undefined) {
+            asyncRules.push(metadataOf(rule.validator))
+        } else {
+            asyncProperties[rule.key] = (asyncProperties[rule.key] || []).concat([metadataOf(rule.validator)])
         }
+    })
+    const metadata: ValidatorMetadata = {
+        kind: 'builder',
+        rules,
+        properties,
+        asyncRules,
+        asyncProperties,
+        hasDefault: state.defaultValue !== undefined,
+        optional: state.optional,
+        nullable: state.nullable,
+        preprocessors: state.preprocessors.length,
+        transforms: state.transforms.length
+    }
+    if (state.unknownKeys !== undefined) {
+        metadata.unknownKeys = state.unknownKeys
+    }
+    if (state.defaultValue !== undefined && typeof state.defaultValue.value !== 'function') {
+        metadata.default = state.defaultValue.value
     }
+    return metadata
 }
 
-function addSubValidator<T, K extends keyof T>(baseValidator: Validator<T>, key: K, subValidator: Validator<T[K]>): Validator<T> {
-    return (x: any, errorCollector?: ValidationError[], path?: string): x is T => {
+function parseWithState<T>(state: BuilderState, x: any, errorCollector?: ValidationError[], path?: string): Parsed<T> {
+    let input = x
+    if (isParsing() && input === undefined && state.defaultValue !== undefined) {
+        const defaultValue = state.defaultValue.value
+        input = typeof defaultValue === 'function' ? defaultValue() : defaultValue
+    }
+    if ((input === undefined && state.optional) || (input === null && state.nullable)) {
+        return { valid: true, value: input }
+    }
+    if (!isParsing()) {
+        return parseWithRules<T>(state, input, errorCollector, path)
+    }
+    input = state.preprocessors.reduce((value, preprocessor) => preprocessor(value), input)
+    const parsed = parseWithRules<T>(state, input, errorCollector, path)
+    if (!parsed.valid) {
+        return parsed
+    }
+    return { valid: true, value: state.transforms.reduce((value, transform) => transform(value), parsed.value) }
+}
+
+function parseWithRules<T>(state: BuilderState, x: any, errorCollector?: ValidationError[], path?: string): Parsed<T> {
+    const parsed = parseSynchronously<T>(state, x, errorCollector, path)
+    if (!parsed.valid || state.asyncRules.length === 0) {
+        return parsed
+    }
 
-        const subValidatorPath = joinObjectPaths(path, key as string)
-        let subValidatorResult: boolean
-        if (x.hasOwnProperty && x.hasOwnProperty(key)) {
-            subValidatorResult = subValidator(x[key], errorCollector, subValidatorPath)
+    // Asynchronous rules see the parsed value, and run once the caller has finished validating synchronously
+    const value: any = parsed.value
+    const tasks: AsyncTask[] = []
+    let valid = true
+    state.asyncRules.forEach(rule => {
+        if (rule.key === undefined) {
+            tasks.push({ rule: rule.validator, value, errorCollector, path: path || "", unknownKeys: inheritedUnknownKeys() })
+        } else if (hasField(state, value, rule.key)) {
+            tasks.push({ rule: rule.validator, value: value[rule.key], errorCollector, path: joinObjectPaths(path, rule.key), unknownKeys: inheritedUnknownKeys() })
+        } else if (!state.rules.some(syncRule => syncRule.key === rule.key)) {
+            // Otherwise the synchronous rules have already decided whether the property may be missing
+            valid = false
+            if (errorCollector !== undefined) {
+                errorCollector.push(missingPropertyError(path, rule.key))
+            }
+        }
+    })
+    if (tasks.length > 0 && !scheduleAsyncTasks(tasks)) {
+        // Called synchronously, so the value can't be known to be valid
+        valid = false
+        if (errorCollector !== undefined) {
+            errorCollector.push(asyncRequiredError(path))
+        }
+    }
+    return { valid, value }
+}
+
+// Each rule sees the value produced by the rules before it, so e.g. a rule after a coercion checks the coerced value.
+// Properties produced by rules for them are kept in fieldValues until the object is next needed as a whole.
+function parseSynchronously<T>(state: BuilderState, x: any, errorCollector?: ValidationError[], path?: string): Parsed<T> {
+    let valid = true
+    let value = x
+    let fieldValues: { [key: string]: any } = Object.create(null)
+    let fieldsChanged = false
+    const current = () => fieldsChanged ? copyWith(state, value, Object.keys(value), fieldValues) : value
+    const hasCurrentField = (key: string) => Object.prototype.hasOwnProperty.call(fieldValues, key) || hasField(state, value, key)
+    const currentField = (key: string) => Object.prototype.hasOwnProperty.call(fieldValues, key) ? fieldValues[key] : value[key]
+
+    const skipFailedFields = !!runOptions().skipFailedFields
+    const failedKeys: (string | undefined)[] = []
+    const missingKeys: string[] = []
+    for (let i = 0; i < state.rules.length; i++) {
+        const rule = state.rules[i]
+        if (skipFailedFields && failedKeys.indexOf(rule.key) !== -1) {
+            continue
+        }
+        let ruleValid: boolean
+        if (rule.key === undefined && failedKeys.indexOf(undefined) !== -1 && !isObjectLike(value) && declaredKeys(state).length > 0) {
+            // An object was expected, and rules for the whole object may assume that's what they're given
+            continue
+        } else if (rule.key === undefined) {
+            const input = current()
+            const parsed = parseWith(rule.validator, input, errorCollector, path || "")
+            ruleValid = parsed.valid
+            if (fieldsChanged || parsed.value !== input) {
+                value = parsed.value
+                fieldValues = Object.create(null)
+                fieldsChanged = false
+            }
+        } else if (hasCurrentField(rule.key)) {
+            const input = currentField(rule.key)
+            const parsed = parseWith(rule.validator, input, errorCollector, joinObjectPaths(path, rule.key))
+            ruleValid = parsed.valid
+            if (parsed.value !== input) {
+                fieldValues[rule.key] = parsed.value
+                fieldsChanged = true
+            }
+        } else if (failedKeys.indexOf(undefined) !== -1) {
+            // A rule for the whole value has already failed, e.g. it isn't an object, so its properties aren't reported
+            ruleValid = false
+        } else if (!isObjectLike(value)) {
+            if (errorCollector !== undefined) {
+                errorCollector.push({
+                    path: path || "",
+                    error: `Expected an object, but got ${value === null ? 'null' : `type ${typeof value}`}`,
+                    code: 'object.type',
+                    params: { actualType: value === null ? 'null' : typeof value },
+                    value
+                })
+            }
+            failedKeys.push(undefined)
+            ruleValid = false
+        } else if (acceptsMissing(rule.validator)) {
+            // Parsed as undefined, so that the default is filled in
+            const parsed = parseWith(rule.validator, undefined, errorCollector, joinObjectPaths(path, rule.key))
+            ruleValid = parsed.valid
+            if (parsed.value !== undefined) {
+                fieldValues[rule.key] = parsed.value
+                fieldsChanged = true
+            }
         } else {
-            subValidatorResult = false
+            // Other rules are never run on undefined, as their checks may assume the property is there
+            if (errorCollector !== undefined && missingKeys.indexOf(rule.key) === -1) {
+                errorCollector.push(missingPropertyError(path, rule.key))
+            }
+            missingKeys.push(rule.key)
+            ruleValid = false
+        }
+        if (!ruleValid) {
+            valid = false
+            failedKeys.push(rule.key)
+            if (shouldStop(valid, errorCollector)) {
+                return { valid, value: x }
+            }
         }
-        const baseValidatorResult = baseValidator(x, errorCollector, path)
+    }
 
-        return !!(subValidatorResult && baseValidatorResult)
+    const policy = unknownKeyPolicy(state, inheritedUnknownKeys())
+    if (policy === 'passthrough' || typeof value !== 'object' || value === null) {
+        return { valid, value: current() }
     }
+
+    const keys = declaredKeys(state)
+    const unknownKeys = Object.keys(value).filter(key => keys.indexOf(key) === -1)
+    if (policy === 'strict') {
+        unknownKeys.forEach(key => {
+            if (errorCollector !== undefined) {
+                errorCollector.push({
+                    path: joinObjectPaths(path, key),
+                    error: `Unexpected property '${key}'`,
+                    code: 'object.unknownKey',
+                    params: { key },
+                    value: value[key]
+                })
+            }
+        })
+        return { valid: valid && unknownKeys.length === 0, value: current() }
+    }
+
+    return { valid, value: copyWith(state, value, keys.filter(key => Object.prototype.hasOwnProperty.call(value, key)), fieldValues) }
+}
+
+// Copies the given properties of value, replacing those parsed into fieldValues. Instances whose properties are read
+// through their prototype keep it, so that their getters and methods still work.
+function copyWith(state: BuilderState, value: any, keys: string[], fieldValues: { [key: string]: any }): any {
+    const copy = state.inheritedProperties ? Object.create(Object.getPrototypeOf(value)) : {}
+    // Defined rather than assigned, so that a property doesn't run a setter of the prototype, or replace it
+    const define = (key: string, property: any) => {
+        Object.defineProperty(copy, key, { value: property, enumerable: true, writable: true, configurable: true })
+    }
+    keys.forEach(key => define(key, value[key]))
+    Object.keys(fieldValues).forEach(key => define(key, fieldValues[key]))
+    return copy
+}
+
+// Builders declaring properties follow the policy they inherit, while others, e.g. those wrapping an arrayOf, don't
+// have properties of their own for it to apply to
+function unknownKeyPolicy(state: BuilderState, inherited: UnknownKeyPolicy | undefined): UnknownKeyPolicy {
+    if (state.unknownKeys !== undefined) {
+        return state.unknownKeys
+    }
+    return inherited !== undefined && declaredKeys(state).length > 0 ? inherited : 'passthrough'
 }
 
-function makeValidatorBuilder<T>(baseValidator: Validator<T>): ValidatorBuilder<T> {
-    const builder = <ValidatorBuilder<T>>baseValidator
+// Escapes a property name for use in generated code
+function stringLiteral(key: string): string {
+    return JSON.stringify(key).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029')
+}
+
+/**
+ * Builds a Check doing exactly what parseWithState does for a type guard
+ * call: there's no default, preprocessing or transforming, and checking
+ * stops at the first rule that fails.
+ */
+function compileState(state: BuilderState, context: CompileContext): Check {
+    const checks = state.rules.map(rule => context.compile(rule.validator, state.unknownKeys))
+    // Outside of parsing, only optional builders are run for missing properties
+    const optional = state.rules.map(rule => {
+        const ruleState = builderStates.get(rule.validator)
+        return ruleState !== undefined && ruleState.optional
+    })
+    const strictKeys = unknownKeyPolicy(state, context.unknownKeys) === 'strict' ? new Set(declaredKeys(state)) : undefined
+    // Asynchronous rules can't be checked synchronously, so any that would be run make the value invalid. Those for
+    // the whole value, or for properties without synchronous rules, which must be present, would always be run.
+    const asyncKeys = declaredKeys({ ...state, rules: [] })
+    const alwaysAsync = state.asyncRules.some(rule => rule.key === undefined) || asyncKeys.some(key => !state.rules.some(rule => rule.key === key))
+
+    if (context.generateCode) {
+        const has = (key: string) => state.inheritedProperties ? `${key} in Object(x)` : `hasOwn.call(x, ${key})`
+        const lines: string[] = []
+        checks.forEach((check, i) => lines.push(`var c${i} = checks[${i}];`))
+        lines.push('return function (x) {')
+        if (state.optional) {
+            lines.push('if (x === undefined) return true;')
+        }
+        if (state.nullable) {
+            lines.push('if (x === null) return true;')
+        }
+        state.rules.forEach((rule, i) => {
+            if (rule.key === undefined) {
+                lines.push(`if (!c${i}(x)) return false;`)
+                return
+            }
+            const key = stringLiteral(rule.key)
+            lines.push(`if (x !== null && x !== undefined && ${has(key)}) { if (!c${i}(x[${key}])) return false; }`)
+            lines.push(optional[i]
+                ? `else if (x === null || (typeof x !== 'object' && typeof x !== 'function') || !c${i}(undefined)) return false;`
+                : 'else return false;')
+        })
+        if (strictKeys !== undefined) {
+            lines.push("if (typeof x === 'object' && x !== null) { var keys = Object.keys(x); for (var i = 0; i < keys.length; i++) { if (!strictKeys.has(keys[i])) return false; } }")
+        }
+        if (alwaysAsync) {
+            lines.push('return false;')
+        }
+        asyncKeys.forEach(key => {
+            lines.push(`if (x !== null && x !== undefined && ${has(stringLiteral(key))}) return false;`)
+        })
+        lines.push('return true;', '};')
+        return new Function('checks', 'hasOwn', 'strictKeys', lines.join('\n'))(checks, Object.prototype.hasOwnProperty, strictKeys)
+    }
+
+    return (x: any) => {
+        if ((x === undefined && state.optional) || (x === null && state.nullable)) {
+            return true
+        }
+        for (let i = 0; i < state.rules.length; i++) {
+            const key = state.rules[i].key
+            if (key === undefined) {
+                if (!checks[i](x)) {
+                    return false
+                }
+            } else if (hasField(state, x, key)) {
+                if (!checks[i](x[key])) {
+                    return false
+                }
+            } else if (!optional[i] || !isObjectLike(x) || !checks[i](undefined)) {
+                return false
+            }
+        }
+        if (strictKeys !== undefined && typeof x === 'object' && x !== null && Object.keys(x).some(key => !strictKeys.has(key))) {
+            return false
+        }
+        return !alwaysAsync && !asyncKeys.some(key => hasField(state, x, key))
+    }
+}
+
+function makeValidatorBuilder<T, O = T>(state: BuilderState): ValidatorBuilder<T, O> {
+    const parser = (x: any, errorCollector?: ValidationError[], path?: string) => state.unknownKeys === undefined
+        ? parseWithState<T>(state, x, errorCollector, path)
+        : whileInheritingUnknownKeys(state.unknownKeys, () => parseWithState<T>(state, x, errorCollector, path))
+    const builder = <ValidatorBuilder<T, O>>withMetadata(fromParser(parser), () => describeState(state))
+    builderStates.set(builder, state)
+    withCompiler(builder, (context) => compileState(state, context))
+
     builder.withRule = function (rule: Validator<T> | Check, errorMessageBuilder?: ErrorMessageBuilder) {
         let actualRule: Validator<T>
         if (errorMessageBuilder) {
@@ -57,8 +399,10 @@ function makeValidatorBuilder<T>(baseValidator: Validator<T>): ValidatorBuilder<
         } else {
             actualRule = rule as Validator<T>
         }
-        const newValidator = addRule(baseValidator, actualRule)
-        return makeValidatorBuilder(newValidator)
+        return makeValidatorBuilder<T, O>({
+            ...state,
+            rules: [...state.rules, { validator: actualRule }]
+        })
     }
 
     // TODO - this is super un-type checked and makes me very jittery, and there's got to be a better way to get the effect we want
@@ -69,30 +413,181 @@ function makeValidatorBuilder<T>(baseValidator: Validator<T>): ValidatorBuilder<
         } else {
             propertyValidator = rule as Validator<T[K]>
         }
-        const newValidator = addSubValidator(baseValidator, key, propertyValidator)
-        return makeValidatorBuilder(newValidator)
+        return makeValidatorBuilder<T, O>({
+            ...state,
+            rules: [...state.rules, { key, validator: propertyValidator }]
+        })
     }
 
-    return builder
-}
-
-export function validatorFor<T>(check?: Check, errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<T> {
-    let validator: ValidatorBuilder<T>
-    if (check !== undefined && errorMessageBuilder !== undefined) {
-        validator = <ValidatorBuilder<T>>function (x: any, errorCollector?: ValidationError[], path?: string): x is T {
+    builder.withRuleAt = function (target: ObjectPath | ObjectPath[], check: Check, errorMessageBuilder: ErrorMessageBuilder) {
+        const targets = Array.isArray(target) ? target : [target]
+        const rule = function (x: any, errorCollector?: ValidationError[], path?: ObjectPath): x is T {
             const valid = check(x)
             if (errorCollector !== undefined && !valid) {
-                errorCollector.push({
-                    path: path,
+                targets.forEach(targetPath => errorCollector.push({
+                    path: joinObjectPaths(path, targetPath),
                     error: errorMessageBuilder(x)
-                })
+                }))
             }
             return valid
         }
-    } else {
-        validator = <ValidatorBuilder<T>>function (x: any, errorCollector?: ValidationError[], path?: string): x is T {
-            return true
+        return makeValidatorBuilder<T, O>({
+            ...state,
+            rules: [...state.rules, { validator: rule, targets }]
+        })
+    }
+
+    builder.refine = function <R extends T>(rule: Validator<R> | Check, errorMessageBuilder?: ErrorMessageBuilder): ValidatorBuilder<R, RefinedOutput<T, O, R>> {
+        let actualRule: Validator<R>
+        if (errorMessageBuilder) {
+            actualRule = validatorFor<R>(rule, errorMessageBuilder)
+        } else {
+            actualRule = rule as Validator<R>
+        }
+        return makeValidatorBuilder<R, RefinedOutput<T, O, R>>({
+            ...state,
+            rules: [...state.rules, { validator: actualRule }]
+        })
+    }
+
+    // Brands only exist at compile time, so the builder is unchanged
+    builder.brand = function () {
+        return makeValidatorBuilder(state)
+    }
+
+    builder.withAsyncRule = function (rule: AsyncValidator<T> | Validator<T> | AsyncCheck, errorMessageBuilder?: ErrorMessageBuilder) {
+        let actualRule: AsyncValidator<T> | Validator<T>
+        if (errorMessageBuilder) {
+            actualRule = asyncValidatorFor<T>(rule as AsyncCheck, errorMessageBuilder)
+        } else {
+            actualRule = rule as AsyncValidator<T> | Validator<T>
+        }
+        return makeValidatorBuilder<T, O>({
+            ...state,
+            asyncRules: [...state.asyncRules, { validator: actualRule }]
+        })
+    }
+
+    builder.withAsyncRuleFor = function <K extends keyof T & string>(key: K, rule: AsyncValidator<T[K]> | Validator<T[K]> | AsyncCheck, errorMessageBuilder?: ErrorMessageBuilder) {
+        let propertyValidator: AsyncValidator<T[K]> | Validator<T[K]>
+        if (errorMessageBuilder) {
+            propertyValidator = asyncValidatorFor<T[K]>(rule as AsyncCheck, errorMessageBuilder)
+        } else {
+            propertyValidator = rule as AsyncValidator<T[K]> | Validator<T[K]>
         }
+        return makeValidatorBuilder<T, O>({
+            ...state,
+            asyncRules: [...state.asyncRules, { key, validator: propertyValidator }]
+        })
+    }
+
+    builder.withUnknownKeys = function (policy: UnknownKeyPolicy) {
+        return makeValidatorBuilder<T, O>({ ...state, unknownKeys: policy })
+    }
+
+    builder.withInheritedProperties = function () {
+        return makeValidatorBuilder<T, O>({ ...state, inheritedProperties: true })
+    }
+
+    builder.preprocess = function (preprocessor: Preprocessor) {
+        return makeValidatorBuilder<T, O>({ ...state, preprocessors: [...state.preprocessors, preprocessor] })
+    }
+
+    builder.default = function (value: T | (() => T)) {
+        return makeValidatorBuilder<T, O>({ ...state, defaultValue: { value } })
+    }
+
+    builder.transform = function <U>(fn: (value: O) => U) {
+        return makeValidatorBuilder<T, U>({ ...state, transforms: [...state.transforms, fn] })
+    }
+
+    builder.optional = function () {
+        return makeValidatorBuilder<T | undefined, O | undefined>({ ...state, optional: true })
+    }
+
+    builder.nullable = function () {
+        return makeValidatorBuilder<T | null, O | null>({ ...state, nullable: true })
+    }
+
+    builder.nullish = function () {
+        return makeValidatorBuilder<T | null | undefined, O | null | undefined>({ ...state, optional: true, nullable: true })
     }
-    return makeValidatorBuilder(validator)
+
+    builder.safeParse = function (value: any, options: ParseOptions = {}): ParseResult<O> {
+        let errors: ValidationError[] = []
+        const parsed = whileParsing(() => whileRunning(options, errors, () => parser(value, errors)))
+        if (options.maxErrors !== undefined) {
+            errors = errors.slice(0, options.maxErrors)
+        }
+        if (options.messages !== undefined) {
+            errors = localizeErrors(errors, options.messages, options.locale)
+        }
+        return parsed.valid
+            ? { valid: true, value: parsed.value as unknown as O, errors }
+            : { valid: false, errors }
+    }
+
+    builder.parse = function (value: any, options?: ParseOptions): O {
+        const result = builder.safeParse(value, options)
+        if (!result.valid) {
+            throw new ValidationException(result.errors)
+        }
+        return result.value
+    }
+
+    builder.validateAsync = function (value: any, options?: AsyncValidationOptions): Promise<ParseResult<O>> {
+        return validateAsync(builder, value, options) as Promise<ParseResult<any>>
+    }
+
+    return builder
+}
+
+/**
+ * Creates a ValidatorBuilder. With no arguments the validator accepts any
+ * value until rules are added to it. With a check and ErrorMessageBuilder,
+ * it starts out with that check.
+ *
+ * Passing an ErrorCode, or a function picking one, makes errors from the
+ * check carry that code, the failing value and any params, so that they can
+ * be told apart by code and translated with a message catalog.
+ */
+export function validatorFor<T>(
+    check?: Check,
+    errorMessageBuilder?: ErrorMessageBuilder,
+    code?: ErrorCode | ErrorCodeBuilder,
+    paramsBuilder?: ErrorParamsBuilder
+): ValidatorBuilder<T> {
+    const rules: BuilderRule[] = []
+    if (check !== undefined && errorMessageBuilder !== undefined) {
+        rules.push({
+            validator: withCompiler(function (x: any, errorCollector?: ValidationError[], path?: string): x is T {
+                const valid = check(x)
+                if (errorCollector !== undefined && !valid) {
+                    const error: ValidationError = {
+                        path: path,
+                        error: errorMessageBuilder(x)
+                    }
+                    if (code !== undefined) {
+                        error.code = typeof code === 'function' ? code(x) : code
+                        error.params = paramsBuilder !== undefined ? paramsBuilder(x) : {}
+                        error.value = x
+                    }
+                    errorCollector.push(error)
+                }
+                return valid
+            }, () => (x: any) => !!check(x))
+        })
+    }
+    return makeValidatorBuilder<T>({
+        rules,
+        asyncRules: [],
+        preprocessors: [],
+        transforms: [],
+        optional: false,
+        nullable: false,
+        inheritedProperties: false,
+        secret: false
+    })
 }
+
+withBuilderFactory(makeValidatorBuilder)